@@ -5,46 +5,123 @@
 
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { SURFACE_COLORS, TEXT_COLORS } from '../constants/colors';
+import { SessionProvider } from '../context/SessionContext';
+import { StorageProvider } from '../context/StorageContext';
+import { ReferenceProfileProvider } from '../context/ReferenceProfileContext';
+import { PreferencesProvider } from '../context/PreferencesContext';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme } from '../hooks/useTheme';
 
 /**
- * RootLayout provides the navigation structure for the app.
- * Uses Stack navigation with two screens:
- * - index: Input screen for entering metric values
- * - results: Visualization screen showing gauges
+ * AppStack configures the status bar and stack navigator. Screen titles
+ * and header colors follow the active language and theme, so it renders
+ * inside PreferencesProvider.
  */
-const RootLayout = () => {
+const AppStack = () => {
+  const { t } = useI18n();
+  const { colors } = useTheme();
+
   return (
     <>
-      <StatusBar style="dark" />
+      <StatusBar style={colors.statusBar} />
       <Stack
         screenOptions={{
           headerStyle: {
-            backgroundColor: SURFACE_COLORS.card,
+            backgroundColor: colors.surface.card,
           },
-          headerTintColor: TEXT_COLORS.primary,
+          headerTintColor: colors.text.primary,
           headerTitleStyle: {
             fontWeight: '600',
             fontSize: 18,
           },
           headerShadowVisible: true,
           contentStyle: {
-            backgroundColor: SURFACE_COLORS.background,
+            backgroundColor: colors.surface.background,
           },
         }}
       >
         <Stack.Screen
           name="index"
           options={{
-            title: 'CABG Metrics Input',
+            title: t('nav.index'),
             headerBackVisible: false,
           }}
         />
+        <Stack.Screen
+          name="session"
+          options={{
+            title: t('nav.session'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
         <Stack.Screen
           name="results"
           options={{
-            title: 'Visualization Results',
-            headerBackTitle: 'Back',
+            title: t('nav.results'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="comparison"
+          options={{
+            title: t('nav.comparison'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="timeline"
+          options={{
+            title: t('nav.timeline'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="live"
+          options={{
+            title: t('nav.live'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="quiz"
+          options={{
+            title: t('nav.quiz'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="history"
+          options={{
+            title: t('nav.history'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="waveform"
+          options={{
+            title: t('nav.waveform'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="import"
+          options={{
+            title: t('nav.import'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="profiles"
+          options={{
+            title: t('nav.profiles'),
+            headerBackTitle: t('nav.back'),
+          }}
+        />
+        <Stack.Screen
+          name="settings"
+          options={{
+            title: t('nav.settings'),
+            headerBackTitle: t('nav.back'),
           }}
         />
       </Stack>
@@ -52,4 +129,34 @@ const RootLayout = () => {
   );
 };
 
+/**
+ * RootLayout provides the navigation structure for the app.
+ * Uses Stack navigation with the following screens:
+ * - index: Input screen for entering a graft's metric values
+ * - session: List of grafts assessed in the current case
+ * - results: Visualization screen showing gauges
+ * - comparison: A graft's metrics before and after revision
+ * - timeline: One metric of a graft across the surgical phases
+ * - live: Gauges driven by a live measurement feed
+ * - quiz: Training cases to classify, with tracked scores
+ * - history: Previously saved assessments
+ * - waveform: Metric computation from a raw flow waveform
+ * - import: CSV/JSON measurement import
+ * - profiles: Custom reference range editor
+ * - settings: Language, theme and display unit preferences
+ */
+const RootLayout = () => {
+  return (
+    <StorageProvider>
+      <PreferencesProvider>
+        <ReferenceProfileProvider>
+          <SessionProvider>
+            <AppStack />
+          </SessionProvider>
+        </ReferenceProfileProvider>
+      </PreferencesProvider>
+    </StorageProvider>
+  );
+};
+
 export default RootLayout;
@@ -0,0 +1,90 @@
+/**
+ * Comparison screen for a graft re-measured after revision.
+ * Opened with a `graftId` param naming the assessment after revision;
+ * its metrics are compared with the earlier assessment it is linked to.
+ */
+
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { ThemeColors } from '../constants/colors';
+import { useSession } from '../context/SessionContext';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import { compareRevision, getRevisionPair } from '../utils/revision';
+import ComparisonCard from '../components/ComparisonCard';
+
+/**
+ * ComparisonScreen renders one ComparisonCard per metric, or a note
+ * when the graft is not linked to an earlier assessment.
+ */
+const ComparisonScreen = () => {
+  const styles = useThemedStyles(createStyles);
+  const { graftId } = useLocalSearchParams<{ graftId?: string }>();
+  const { session } = useSession();
+  const { t } = useI18n();
+  const pair = graftId ? getRevisionPair(session, graftId) : null;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {pair ? (
+        <>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {t('comparison.title', { name: pair.after.name })}
+            </Text>
+            <Text style={styles.subtitle}>
+              {t('comparison.subtitle', { before: pair.before.name })}
+            </Text>
+          </View>
+
+          {compareRevision(pair).map((comparison) => (
+            <ComparisonCard
+              key={comparison.key}
+              comparison={comparison}
+              profileId={pair.after.profileId}
+              testID={`comparison-card-${comparison.key}`}
+            />
+          ))}
+        </>
+      ) : (
+        <Text style={styles.emptyText}>{t('comparison.notFound')}</Text>
+      )}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+  });
+
+export default ComparisonScreen;
@@ -0,0 +1,227 @@
+/**
+ * History screen listing assessments saved on this device.
+ * Entries can be reopened in the results screen, duplicated or deleted.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { View, Text, ScrollView, Pressable, StyleSheet, Alert } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { SavedAssessment } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { useSession } from '../context/SessionContext';
+import { useAssessmentHistory } from '../context/StorageContext';
+import { useI18n } from '../hooks/useI18n';
+import { getWorstZone } from '../utils/session';
+
+/**
+ * Returns the worst zone across every graft of a saved session.
+ */
+const getSessionZoneColor = (entry: SavedAssessment, colors: ThemeColors): string => {
+  const zones = entry.session.grafts.map(getWorstZone);
+  if (zones.includes('red')) return colors.zone.red;
+  if (zones.includes('yellow')) return colors.zone.yellow;
+  if (zones.includes('green')) return colors.zone.green;
+  return colors.surface.border;
+};
+
+/**
+ * HistoryScreen loads saved assessments whenever it gains focus.
+ */
+const HistoryScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = useI18n();
+  const router = useRouter();
+  const history = useAssessmentHistory();
+  const { loadSession } = useSession();
+  const [entries, setEntries] = useState<readonly SavedAssessment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await history.list());
+    } catch {
+      Alert.alert(t('history.unavailableTitle'), t('history.unavailableMessage'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [history, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  /**
+   * Loads the saved session and renders it through the results screen.
+   */
+  const handleOpen = useCallback(
+    (entry: SavedAssessment) => {
+      loadSession(entry.session);
+      router.push('/results');
+    },
+    [loadSession, router]
+  );
+
+  const handleDuplicate = useCallback(
+    async (entry: SavedAssessment) => {
+      try {
+        await history.duplicate(entry.id);
+        await refresh();
+      } catch {
+        Alert.alert(t('history.duplicateFailedTitle'), t('history.duplicateFailedMessage'));
+      }
+    },
+    [history, refresh, t]
+  );
+
+  const handleDelete = useCallback(
+    (entry: SavedAssessment) => {
+      Alert.alert(t('history.deleteTitle'), t('history.deleteMessage'), [
+        { text: t('history.cancel'), style: 'cancel' },
+        {
+          text: t('history.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await history.remove(entry.id);
+              await refresh();
+            } catch {
+              Alert.alert(t('history.deleteFailedTitle'), t('history.deleteFailedMessage'));
+            }
+          },
+        },
+      ]);
+    },
+    [history, refresh, t]
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('history.title')}</Text>
+        <Text style={styles.subtitle}>{t('history.subtitle')}</Text>
+      </View>
+
+      {!isLoading && entries.length === 0 && (
+        <Text style={styles.emptyText}>{t('history.empty')}</Text>
+      )}
+
+      {entries.map((entry) => (
+        <View key={entry.id} style={styles.entry} testID={`history-entry-${entry.id}`}>
+          <View style={styles.entryHeader}>
+            <View style={[styles.zoneMarker, { backgroundColor: getSessionZoneColor(entry, colors) }]} />
+            <Text style={styles.entryDate}>{new Date(entry.savedAt).toLocaleString(locale)}</Text>
+          </View>
+          <Text style={styles.entryGrafts}>
+            {entry.session.grafts.map((graft) => graft.name).join(', ') || t('history.noGrafts')}
+          </Text>
+          <View style={styles.actions}>
+            <Pressable
+              onPress={() => handleOpen(entry)}
+              accessibilityRole="button"
+              accessibilityLabel={t('history.openA11y')}
+            >
+              <Text style={styles.action}>{t('history.open')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleDuplicate(entry)}
+              accessibilityRole="button"
+              accessibilityLabel={t('history.duplicateA11y')}
+            >
+              <Text style={styles.action}>{t('history.duplicate')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleDelete(entry)}
+              accessibilityRole="button"
+              accessibilityLabel={t('history.deleteA11y')}
+            >
+              <Text style={[styles.action, styles.deleteAction]}>{t('history.delete')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    entry: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 12,
+    },
+    entryHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    zoneMarker: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginRight: 10,
+    },
+    entryDate: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    entryGrafts: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      marginTop: 6,
+    },
+    actions: {
+      flexDirection: 'row',
+      marginTop: 12,
+    },
+    action: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginRight: 20,
+    },
+    deleteAction: {
+      color: colors.zone.red,
+    },
+  });
+
+export default HistoryScreen;
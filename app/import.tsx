@@ -0,0 +1,387 @@
+/**
+ * Import screen for CSV and JSON measurement exports.
+ * Parsed rows can pre-fill the input form or be added to the session
+ * as assessments directly.
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { METRIC_KEYS } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { useSession } from '../context/SessionContext';
+import { useI18n } from '../hooks/useI18n';
+import {
+  ImportResult,
+  ImportedMeasurement,
+  parseMeasurementFile,
+  toGraftDraft,
+} from '../utils/measurementImport';
+import { formatMetricValue } from '../utils/metricValues';
+
+/** MIME types offered by the document picker */
+const EXPORT_MIME_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'text/tab-separated-values',
+  'text/plain',
+  'application/json',
+];
+
+/**
+ * ImportScreen loads an export from a file or pasted text, shows the
+ * parsed rows and the per-row issue report, and applies the rows.
+ */
+const ImportScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const router = useRouter();
+  const { addGraft } = useSession();
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  /**
+   * Lets the user pick an export file and parses its content.
+   */
+  const handlePickFile = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: EXPORT_MIME_TYPES,
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled) return;
+
+      const asset = picked.assets[0];
+      const content = await FileSystem.readAsStringAsync(asset.uri);
+      setText(content);
+      setFileName(asset.name);
+      setResult(parseMeasurementFile(content, asset.name));
+      setLoadError(null);
+    } catch {
+      setLoadError(t('import.readFailed'));
+    }
+  }, [t]);
+
+  const handleParseText = useCallback(() => {
+    setResult(parseMeasurementFile(text, fileName));
+    setLoadError(null);
+  }, [text, fileName]);
+
+  /**
+   * Opens the input form pre-filled with a single row.
+   */
+  const handleFillForm = useCallback(
+    (measurement: ImportedMeasurement) => {
+      router.dismissTo({ pathname: '/', params: { prefill: JSON.stringify(measurement) } });
+    },
+    [router]
+  );
+
+  /**
+   * Adds every parsed row to the session as a graft assessment.
+   */
+  const handleCreateAll = useCallback(() => {
+    if (!result) return;
+    result.measurements.forEach((measurement) => addGraft(toGraftDraft(measurement)));
+    router.push('/session');
+  }, [result, addGraft, router]);
+
+  const measurementCount = result?.measurements.length ?? 0;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('import.title')}</Text>
+          <Text style={styles.subtitle}>{t('import.subtitle')}</Text>
+        </View>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && styles.secondaryButtonPressed,
+          ]}
+          onPress={handlePickFile}
+          accessibilityRole="button"
+          accessibilityLabel={t('import.chooseFile')}
+        >
+          <Text style={styles.secondaryButtonText}>{t('import.chooseFile')}</Text>
+        </Pressable>
+        {loadError && <Text style={styles.errorText}>{loadError}</Text>}
+
+        <Text style={styles.fieldLabel}>{t('import.paste')}</Text>
+        <TextInput
+          style={styles.textArea}
+          value={text}
+          onChangeText={(value) => {
+            setText(value);
+            setFileName(undefined);
+          }}
+          placeholder={'Graft,MF,PI,DF,BF,ACI,MAP\nLIMA-LAD,45,2.1,72,1,88,80'}
+          placeholderTextColor={colors.text.tertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="input-import-text"
+          accessibilityLabel={t('import.pasteA11y')}
+        />
+        <Pressable
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && styles.secondaryButtonPressed,
+          ]}
+          onPress={handleParseText}
+          accessibilityRole="button"
+          accessibilityLabel={t('import.parse')}
+        >
+          <Text style={styles.secondaryButtonText}>{t('import.parse')}</Text>
+        </Pressable>
+
+        {result && (
+          <View style={styles.resultContainer} testID="import-result">
+            <Text style={styles.sectionTitle}>
+              {t(measurementCount === 1 ? 'import.rowsOne' : 'import.rowsOther', {
+                count: measurementCount,
+                format: result.format.toUpperCase(),
+              })}
+            </Text>
+            <Text style={styles.mapping}>
+              {Object.entries(result.columnMapping)
+                .map(([field, column]) => `${field} ← ${column}`)
+                .join('   ')}
+            </Text>
+
+            {result.issues.length > 0 && (
+              <View style={styles.issues}>
+                {result.issues.map((issue, index) => (
+                  <Text
+                    key={`${issue.row}-${index}`}
+                    style={[
+                      styles.issue,
+                      { color: issue.severity === 'error' ? colors.zone.red : colors.text.secondary },
+                    ]}
+                  >
+                    {issue.row === 0 ? t('import.file') : t('import.row', { row: issue.row })}:{' '}
+                    {issue.message}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {result.measurements.map((measurement) => (
+              <View key={measurement.row} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowName}>
+                    {measurement.name ?? t('import.row', { row: measurement.row })}
+                  </Text>
+                  <Text style={styles.rowValues}>
+                    {METRIC_KEYS.map(
+                      (key) => `${key} ${formatMetricValue(measurement.values[key], 1)}`
+                    ).join(' · ')}
+                  </Text>
+                </View>
+                <Pressable
+                  onPress={() => handleFillForm(measurement)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('import.fillFormA11y', { row: measurement.row })}
+                >
+                  <Text style={styles.rowAction}>{t('import.fillForm')}</Text>
+                </Pressable>
+              </View>
+            ))}
+
+            {measurementCount > 0 && (
+              <Pressable
+                style={({ pressed }) => [
+                  styles.button,
+                  pressed && styles.buttonPressed,
+                ]}
+                onPress={handleCreateAll}
+                accessibilityRole="button"
+                accessibilityLabel={t('import.addAllA11y')}
+              >
+                <Text style={styles.buttonText}>
+                  {t(measurementCount === 1 ? 'import.addAllOne' : 'import.addAllOther', {
+                    count: measurementCount,
+                  })}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 24,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    fieldLabel: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginTop: 24,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    textArea: {
+      minHeight: 140,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      fontSize: 14,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+      textAlignVertical: 'top',
+      marginBottom: 12,
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.zone.red,
+      marginTop: 8,
+    },
+    resultContainer: {
+      marginTop: 24,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 6,
+    },
+    mapping: {
+      fontSize: 13,
+      color: colors.text.tertiary,
+      marginBottom: 12,
+    },
+    issues: {
+      backgroundColor: colors.surface.elevated,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 12,
+      marginBottom: 12,
+    },
+    issue: {
+      fontSize: 13,
+      lineHeight: 19,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 14,
+      marginBottom: 10,
+    },
+    rowInfo: {
+      flex: 1,
+    },
+    rowName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    rowValues: {
+      fontSize: 12,
+      color: colors.text.secondary,
+      marginTop: 4,
+    },
+    rowAction: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginLeft: 12,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginTop: 8,
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+    secondaryButton: {
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.ui.primaryButton,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButtonPressed: {
+      backgroundColor: colors.surface.elevated,
+    },
+    secondaryButtonText: {
+      color: colors.ui.primaryButton,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
+
+export default ImportScreen;
@@ -1,9 +1,11 @@
 /**
  * Input screen for entering coronary bypass graft assessment metrics.
- * Users enter numeric values for each metric before viewing results.
+ * Users describe a graft and enter numeric values for each metric,
+ * then add the graft to the current surgical session. Values saved with
+ * a measurement phase are also recorded on the graft's timeline.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,28 +15,82 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import {
+  MeasurementPhase,
   MetricKey,
   MetricInputState,
   METRIC_KEYS,
+  MEASUREMENT_PHASES,
   DEFAULT_INPUT_STATE,
 } from '../types/metrics';
-import { REFERENCE_RANGES } from '../constants/referenceRanges';
-import {
-  SURFACE_COLORS,
-  TEXT_COLORS,
-  UI_COLORS,
-} from '../constants/colors';
+import { ThemeColors } from '../constants/colors';
+import { useSession } from '../context/SessionContext';
+import { usePreferences } from '../context/PreferencesContext';
+import { useGraftDetails } from '../hooks/useGraftDetails';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ImportedMeasurement } from '../utils/measurementImport';
+import { parseMetricInputState, toMetricInputState } from '../utils/metricValues';
+import { hasValidationErrors, validateMetricInputState } from '../utils/metricValidation';
+import { getDisplayRange } from '../utils/units';
+import { getMetricLabel, localizeNumber } from '../utils/i18n';
+import { recordTimelineEntry } from '../utils/timeline';
 import NumericInput from '../components/NumericInput';
+import GraftDetailsFields from '../components/GraftDetailsFields';
+import ChipSelector, { ChipOption } from '../components/ChipSelector';
+
+/** Phase option meaning the values are not recorded on the timeline */
+const NO_PHASE = '';
+
+/** A measurement phase, or none */
+type PhaseChoice = MeasurementPhase | typeof NO_PHASE;
 
 /**
- * InputScreen renders a form with numeric inputs for each CABG metric.
- * Values are passed to the results screen via URL params.
+ * InputScreen renders a form with graft details and numeric inputs for
+ * each CABG metric. When opened with a `graftId` param it edits that
+ * graft instead of adding a new one; a `prefill` param holding a
+ * JSON-encoded ImportedMeasurement pre-fills the form.
  */
 const InputScreen = () => {
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
-  const [inputState, setInputState] = useState<MetricInputState>(DEFAULT_INPUT_STATE);
+  const { graftId, prefill } = useLocalSearchParams<{ graftId?: string; prefill?: string }>();
+  const { session, addGraft, updateGraft, getGraft } = useSession();
+  const editingGraft = graftId ? getGraft(graftId) : undefined;
+
+  const { units } = usePreferences().preferences;
+  const { locale, t } = useI18n();
+  const [inputState, setInputState] = useState<MetricInputState>(() =>
+    editingGraft ? toMetricInputState(editingGraft.values, units, locale) : DEFAULT_INPUT_STATE
+  );
+  const details = useGraftDetails(editingGraft);
+  const { applyDetails } = details;
+  const [phase, setPhase] = useState<PhaseChoice>(NO_PHASE);
+  const phaseOptions: ChipOption<PhaseChoice>[] = [
+    { value: NO_PHASE, label: t('input.phaseNone') },
+    ...MEASUREMENT_PHASES.map((value) => ({ value, label: t(`phase.${value}` as const) })),
+  ];
+
+  /**
+   * Fills the form from an imported measurement passed as a route param.
+   */
+  useEffect(() => {
+    if (!prefill) return;
+
+    try {
+      const measurement = JSON.parse(prefill) as ImportedMeasurement;
+      setInputState(toMetricInputState(measurement.values, units, locale));
+      applyDetails({
+        name: measurement.name,
+        conduit: measurement.conduit,
+        target: measurement.target,
+      });
+    } catch {
+      // Ignore malformed params and keep the current form
+    }
+    // Only react to a new prefill payload, not to later detail edits
+  }, [prefill]);
 
   /**
    * Updates a single metric's input value.
@@ -47,52 +103,171 @@ const InputScreen = () => {
     }));
   }, []);
 
+  const validation = useMemo(
+    () => validateMetricInputState(inputState, details.profileId, units, locale),
+    [inputState, details.profileId, units, locale]
+  );
+  const isBlocked = hasValidationErrors(validation);
+
   /**
-   * Parses string inputs to numbers and navigates to results.
-   * Empty or invalid inputs default to 0.
+   * Parses string inputs to numbers and saves the graft to the session.
+   * Empty inputs are stored as not measured; saving is blocked while
+   * any input has a validation error. With a phase selected, the values
+   * are also recorded on the timeline.
    */
-  const handleViewResults = useCallback(() => {
-    const params: Record<string, string> = {};
+  const handleSaveGraft = useCallback(() => {
+    if (isBlocked) return;
 
-    METRIC_KEYS.forEach((key) => {
-      const parsed = parseFloat(inputState[key]);
-      params[key] = isNaN(parsed) ? '0' : parsed.toString();
-    });
+    const values = parseMetricInputState(inputState, units, locale);
+    const draft = {
+      ...details.getDetails(),
+      values,
+      timeline:
+        phase === NO_PHASE
+          ? editingGraft?.timeline
+          : recordTimelineEntry(editingGraft?.timeline, phase, values, Date.now()),
+    };
 
-    router.push({
-      pathname: '/results',
-      params,
-    });
-  }, [inputState, router]);
+    if (editingGraft) {
+      updateGraft(editingGraft.id, draft);
+      router.back();
+      return;
+    }
+
+    addGraft(draft);
+    setInputState(DEFAULT_INPUT_STATE);
+    details.setName('');
+    details.linkRevision(null);
+    setPhase(NO_PHASE);
+    router.push('/session');
+  }, [
+    isBlocked,
+    inputState,
+    units,
+    locale,
+    phase,
+    details,
+    editingGraft,
+    addGraft,
+    updateGraft,
+    router,
+  ]);
 
   return (
     <KeyboardAvoidingView
       style={styles.container}
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
     >
+      {editingGraft && (
+        <Stack.Screen options={{ title: t('nav.editGraft'), headerBackVisible: true }} />
+      )}
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         keyboardShouldPersistTaps="handled"
       >
         <View style={styles.header}>
-          <Text style={styles.title}>Enter Metric Values</Text>
-          <Text style={styles.subtitle}>
-            Input CABG assessment values for visualization
+          <Text style={styles.title}>
+            {editingGraft ? t('input.editTitle', { name: editingGraft.name }) : t('input.title')}
           </Text>
+          <Text style={styles.subtitle}>{t('input.subtitle')}</Text>
+          {!editingGraft && (
+            <View style={styles.links}>
+              {session.grafts.length > 0 && (
+                <Pressable
+                  onPress={() => router.push('/session')}
+                  accessibilityRole="link"
+                  accessibilityLabel={t('input.sessionLinkA11y')}
+                >
+                  <Text style={styles.link}>
+                    {t(
+                      session.grafts.length === 1
+                        ? 'input.sessionLinkOne'
+                        : 'input.sessionLinkOther',
+                      { count: session.grafts.length }
+                    )}
+                  </Text>
+                </Pressable>
+              )}
+              <Pressable
+                onPress={() => router.push('/live')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.liveLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.liveLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/quiz')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.quizLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.quizLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/history')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.historyLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.historyLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/waveform')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.waveformLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.waveformLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/import')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.importLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.importLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/profiles')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.profilesLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.profilesLink')}</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push('/settings')}
+                accessibilityRole="link"
+                accessibilityLabel={t('input.settingsLinkA11y')}
+              >
+                <Text style={styles.link}>{t('input.settingsLink')}</Text>
+              </Pressable>
+            </View>
+          )}
         </View>
 
+        <GraftDetailsFields
+          details={details}
+          revisionCandidates={session.grafts.filter((graft) => graft.id !== editingGraft?.id)}
+        />
+
+        <ChipSelector
+          label={t('input.phase')}
+          options={phaseOptions}
+          selected={phase}
+          onSelect={setPhase}
+          testID="select-phase"
+        />
+        <Text style={styles.phaseHint}>{t('input.phaseHint')}</Text>
+
         <View style={styles.inputsContainer}>
           {METRIC_KEYS.map((key) => {
-            const range = REFERENCE_RANGES[key];
+            const range = getDisplayRange(key, details.profileId, units);
             return (
               <NumericInput
                 key={key}
-                label={range.label}
+                label={getMetricLabel(key, locale)}
                 unit={range.unit}
                 value={inputState[key]}
                 onChangeText={(text) => handleInputChange(key, text)}
-                placeholder={`${range.min}-${range.max}`}
+                placeholder={`${localizeNumber(range.min, locale)}–${localizeNumber(range.max, locale)}`}
+                issues={validation[key]}
                 testID={`input-${key}`}
               />
             );
@@ -104,69 +279,103 @@ const InputScreen = () => {
             style={({ pressed }) => [
               styles.button,
               pressed && styles.buttonPressed,
+              isBlocked && styles.buttonDisabled,
             ]}
-            onPress={handleViewResults}
+            onPress={handleSaveGraft}
+            disabled={isBlocked}
             accessibilityRole="button"
-            accessibilityLabel="View Results"
+            accessibilityLabel={editingGraft ? t('input.updateGraft') : t('input.addGraft')}
+            accessibilityState={{ disabled: isBlocked }}
           >
-            <Text style={styles.buttonText}>View Results</Text>
+            <Text style={styles.buttonText}>
+              {editingGraft ? t('input.updateGraft') : t('input.addGraft')}
+            </Text>
           </Pressable>
+          {isBlocked && <Text style={styles.blockedHint}>{t('input.blocked')}</Text>}
         </View>
       </ScrollView>
     </KeyboardAvoidingView>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: SURFACE_COLORS.background,
-  },
-  scrollView: {
-    flex: 1,
-  },
-  scrollContent: {
-    padding: 20,
-    paddingBottom: 40,
-  },
-  header: {
-    marginBottom: 24,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: '700',
-    color: TEXT_COLORS.primary,
-    marginBottom: 8,
-    letterSpacing: -0.5,
-  },
-  subtitle: {
-    fontSize: 15,
-    color: TEXT_COLORS.secondary,
-    lineHeight: 22,
-  },
-  inputsContainer: {
-    marginBottom: 24,
-  },
-  buttonContainer: {
-    marginTop: 8,
-  },
-  button: {
-    backgroundColor: UI_COLORS.primaryButton,
-    paddingVertical: 16,
-    paddingHorizontal: 32,
-    borderRadius: 10,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  buttonPressed: {
-    backgroundColor: UI_COLORS.primaryButtonPressed,
-  },
-  buttonText: {
-    color: TEXT_COLORS.inverse,
-    fontSize: 17,
-    fontWeight: '600',
-    letterSpacing: 0.25,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 24,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    links: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 4,
+    },
+    link: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginTop: 8,
+      marginRight: 20,
+    },
+    phaseHint: {
+      fontSize: 13,
+      color: colors.text.tertiary,
+      marginTop: -8,
+      marginBottom: 16,
+    },
+    inputsContainer: {
+      marginBottom: 24,
+    },
+    buttonContainer: {
+      marginTop: 8,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    blockedHint: {
+      fontSize: 13,
+      color: colors.zone.red,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
 
 export default InputScreen;
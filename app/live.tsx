@@ -0,0 +1,183 @@
+/**
+ * Live screen driving the gauges from a measurement feed.
+ * Connects to the WebSocket endpoint set in Settings and updates one
+ * GaugeCard per metric as frames arrive, with the connection status
+ * above the cards.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, ScrollView, Pressable, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { METRIC_KEYS, ReferenceProfileId } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { DASHBOARD_GUTTER } from '../constants/layout';
+import { DEFAULT_PROFILE_ID } from '../constants/referenceRanges';
+import { usePreferences } from '../context/PreferencesContext';
+import { useReferenceProfiles } from '../context/ReferenceProfileContext';
+import { useDashboardLayout } from '../hooks/useDashboardLayout';
+import { useI18n } from '../hooks/useI18n';
+import { useLiveStream } from '../hooks/useLiveStream';
+import { useThemedStyles } from '../hooks/useTheme';
+import { getProfileLabel } from '../utils/i18n';
+import { isStreamUrl } from '../utils/streamClient';
+import ChipSelector from '../components/ChipSelector';
+import GaugeCard from '../components/GaugeCard';
+import StreamStatusIndicator from '../components/StreamStatusIndicator';
+
+/** Padding around the screen content */
+const SCREEN_PADDING = 20;
+
+/**
+ * LiveScreen connects on open and disconnects when left. The feed can be
+ * paused and resumed, and the reference profile the gauges are drawn
+ * against picked while streaming.
+ */
+const LiveScreen = () => {
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { streamUrl } = usePreferences().preferences;
+  const { profiles } = useReferenceProfiles();
+  const { locale, t } = useI18n();
+  const { columns, isCompact } = useDashboardLayout(SCREEN_PADDING);
+  const [isStreaming, setIsStreaming] = useState(true);
+  const [profileId, setProfileId] = useState<ReferenceProfileId>(DEFAULT_PROFILE_ID);
+  const hasValidUrl = isStreamUrl(streamUrl);
+  const { status, retryIn, values, lastFrameAt } = useLiveStream(
+    streamUrl,
+    isStreaming && hasValidUrl
+  );
+
+  const profileOptions = profiles.map((profile) => ({
+    value: profile.id,
+    label: getProfileLabel(profile, locale),
+  }));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('live.title')}</Text>
+        <Text style={styles.subtitle}>{t('live.subtitle', { url: streamUrl })}</Text>
+      </View>
+
+      {hasValidUrl ? (
+        <View style={styles.statusCard}>
+          <View style={styles.statusRow}>
+            <StreamStatusIndicator status={status} retryIn={retryIn} testID="stream-status" />
+            <Pressable
+              onPress={() => setIsStreaming((prev) => !prev)}
+              accessibilityRole="button"
+              accessibilityLabel={isStreaming ? t('live.disconnect') : t('live.connect')}
+              testID="stream-toggle"
+            >
+              <Text style={styles.action}>
+                {isStreaming ? t('live.disconnect') : t('live.connect')}
+              </Text>
+            </Pressable>
+          </View>
+          {lastFrameAt !== null && (
+            <Text style={styles.lastFrame}>
+              {t('live.lastFrame', { time: new Date(lastFrameAt).toLocaleTimeString() })}
+            </Text>
+          )}
+        </View>
+      ) : (
+        <Pressable
+          style={styles.statusCard}
+          onPress={() => router.push('/settings')}
+          accessibilityRole="link"
+          accessibilityLabel={t('live.invalidUrl')}
+        >
+          <Text style={styles.invalidUrl}>{t('live.invalidUrl')}</Text>
+        </Pressable>
+      )}
+
+      <ChipSelector
+        label={t('graft.profile')}
+        options={profileOptions}
+        selected={profileId}
+        onSelect={setProfileId}
+        testID="select-live-profile"
+      />
+
+      <View style={columns > 1 && styles.grid}>
+        {METRIC_KEYS.map((key) => (
+          <View key={key} style={columns > 1 && [styles.cell, { width: `${100 / columns}%` }]}>
+            <GaugeCard
+              metricKey={key}
+              value={values[key]}
+              profileId={profileId}
+              compact={isCompact}
+              testID={`live-gauge-card-${key}`}
+            />
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: SCREEN_PADDING,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    statusCard: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 16,
+    },
+    statusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    action: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginLeft: 16,
+    },
+    lastFrame: {
+      fontSize: 13,
+      color: colors.text.secondary,
+      marginTop: 8,
+    },
+    invalidUrl: {
+      fontSize: 15,
+      color: colors.zone.red,
+      lineHeight: 22,
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginHorizontal: -DASHBOARD_GUTTER / 2,
+    },
+    cell: {
+      paddingHorizontal: DASHBOARD_GUTTER / 2,
+    },
+  });
+
+export default LiveScreen;
@@ -0,0 +1,494 @@
+/**
+ * Settings screen for custom reference range profiles.
+ * Users start from a built-in profile, edit each metric's scale and
+ * zones with a live gauge preview, and save the result under a name.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { MetricKey, ReferenceProfile, METRIC_KEYS } from '../types/metrics';
+import { REFERENCE_PROFILES, getZoneForRange } from '../constants/referenceRanges';
+import { ThemeColors } from '../constants/colors';
+import { useReferenceProfiles } from '../context/ReferenceProfileContext';
+import { useProfileEditor } from '../hooks/useProfileEditor';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { hasRangeErrors } from '../utils/rangeValidation';
+import { parseMetricInput } from '../utils/metricValues';
+import { getGaugeSummary, getMetricLabel, getProfileLabel, localizeNumber } from '../utils/i18n';
+import ChipSelector from '../components/ChipSelector';
+import NumericInput from '../components/NumericInput';
+import ZoneEditor from '../components/ZoneEditor';
+import Gauge from '../components/Gauge';
+import { DEFAULT_GAUGE_TICKS } from '../components/GaugeMarkings';
+
+const METRIC_OPTIONS = METRIC_KEYS.map((key) => ({ value: key, label: key }));
+
+/**
+ * ProfilesScreen lists saved custom profiles and hosts the range editor.
+ */
+const ProfilesScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { customProfiles, saveProfile, removeProfile } = useReferenceProfiles();
+  const editor = useProfileEditor();
+  const { locale, t } = useI18n();
+  const { loadProfile, resetToDefaults } = editor;
+  const [baseId, setBaseId] = useState(REFERENCE_PROFILES[0].id);
+  const [metricKey, setMetricKey] = useState<MetricKey>('MF');
+  const [previewText, setPreviewText] = useState('');
+
+  const range = editor.profile.ranges[metricKey];
+  const draft = editor.drafts[metricKey];
+  const metricDiagnostics = editor.diagnostics.filter(
+    (diagnostic) => diagnostic.metric === metricKey
+  );
+  const otherErrorCount = editor.diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error' && diagnostic.metric !== metricKey
+  ).length;
+  const isMetricValid = !hasRangeErrors(metricDiagnostics);
+  const canSave = editor.label.trim().length > 0 && !hasRangeErrors(editor.diagnostics);
+  const previewValue = parseMetricInput(previewText, locale) ?? (range.min + range.max) / 2;
+  const baseOptions = useMemo(
+    () =>
+      REFERENCE_PROFILES.map((profile) => ({
+        value: profile.id,
+        label: getProfileLabel(profile, locale),
+      })),
+    [locale]
+  );
+
+  /**
+   * Starts a new profile as a copy of a built-in one.
+   */
+  const handleSelectBase = useCallback(
+    (profileId: string) => {
+      const base = REFERENCE_PROFILES.find((profile) => profile.id === profileId);
+      if (!base) return;
+      setBaseId(profileId);
+      loadProfile(base, true);
+    },
+    [loadProfile]
+  );
+
+  const handleEdit = useCallback(
+    (profile: ReferenceProfile) => {
+      loadProfile(profile, false);
+    },
+    [loadProfile]
+  );
+
+  const handleReset = useCallback(() => {
+    setBaseId(REFERENCE_PROFILES[0].id);
+    resetToDefaults();
+  }, [resetToDefaults]);
+
+  const handleDelete = useCallback(
+    (profile: ReferenceProfile) => {
+      Alert.alert(
+        t('profiles.deleteTitle'),
+        t('profiles.deleteMessage', { name: profile.label }),
+        [
+          { text: t('profiles.cancel'), style: 'cancel' },
+          {
+            text: t('profiles.delete'),
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await removeProfile(profile.id);
+              } catch (error) {
+                Alert.alert(
+                  t('profiles.deleteFailedTitle'),
+                  error instanceof Error ? error.message : t('profiles.deleteFailedMessage')
+                );
+              }
+            },
+          },
+        ]
+      );
+    },
+    [removeProfile, t]
+  );
+
+  const handleSave = useCallback(async () => {
+    try {
+      await saveProfile(editor.profile);
+      Alert.alert(
+        t('profiles.savedTitle'),
+        t('profiles.savedMessage', { name: editor.profile.label })
+      );
+    } catch (error) {
+      Alert.alert(
+        t('profiles.saveFailedTitle'),
+        error instanceof Error ? error.message : t('profiles.saveFailedMessage')
+      );
+    }
+  }, [editor.profile, saveProfile, t]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('profiles.title')}</Text>
+          <Text style={styles.subtitle}>{t('profiles.subtitle')}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('profiles.saved')}</Text>
+        {customProfiles.length === 0 && (
+          <Text style={styles.emptyText}>{t('profiles.empty')}</Text>
+        )}
+        {customProfiles.map((profile) => (
+          <View key={profile.id} style={styles.profileRow}>
+            <Text style={styles.profileName}>{profile.label}</Text>
+            <Pressable
+              onPress={() => handleEdit(profile)}
+              accessibilityRole="button"
+              accessibilityLabel={t('profiles.editA11y', { name: profile.label })}
+            >
+              <Text style={styles.action}>{t('profiles.edit')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleDelete(profile)}
+              accessibilityRole="button"
+              accessibilityLabel={t('profiles.deleteA11y', { name: profile.label })}
+            >
+              <Text style={[styles.action, styles.deleteAction]}>{t('profiles.delete')}</Text>
+            </Pressable>
+          </View>
+        ))}
+
+        <Text style={[styles.sectionTitle, styles.editorTitle]}>{t('profiles.editor')}</Text>
+        <ChipSelector
+          label={t('profiles.startFrom')}
+          options={baseOptions}
+          selected={baseId}
+          onSelect={handleSelectBase}
+          testID="select-base-profile"
+        />
+
+        <Text style={styles.fieldLabel}>{t('profiles.name')}</Text>
+        <TextInput
+          style={styles.textInput}
+          value={editor.label}
+          onChangeText={editor.setLabel}
+          placeholder={t('profiles.namePlaceholder')}
+          placeholderTextColor={colors.text.tertiary}
+          returnKeyType="done"
+          testID="input-profile-name"
+          accessibilityLabel={t('profiles.nameA11y')}
+        />
+
+        <ChipSelector
+          label={t('profiles.metric')}
+          options={METRIC_OPTIONS}
+          selected={metricKey}
+          onSelect={setMetricKey}
+          testID="select-metric"
+        />
+
+        <View style={styles.previewCard}>
+          <Text style={styles.previewLabel}>{getMetricLabel(metricKey, locale)}</Text>
+          {isMetricValid ? (
+            <View style={styles.gaugeContainer}>
+              <Gauge
+                // The arc only animates on mount, so remount on every change
+                key={`${range.min}-${range.max}-${previewValue}-${JSON.stringify(range.zones)}`}
+                value={previewValue}
+                min={range.min}
+                max={range.max}
+                zones={range.zones}
+                ticks={DEFAULT_GAUGE_TICKS}
+                showZoneLabels
+                scaleType={range.scaleType}
+                accessibilityLabel={getGaugeSummary(
+                  {
+                    label: getMetricLabel(metricKey, locale),
+                    value: localizeNumber(previewValue, locale),
+                    unitId: range.unit,
+                    zone: getZoneForRange(range, previewValue),
+                    min: range.min,
+                    max: range.max,
+                  },
+                  locale
+                )}
+              />
+            </View>
+          ) : (
+            <Text style={styles.previewHint}>{t('profiles.previewInvalid')}</Text>
+          )}
+          <NumericInput
+            label={t('profiles.previewValue')}
+            unit={range.unit}
+            value={previewText}
+            onChangeText={setPreviewText}
+            placeholder={isMetricValid ? `${(range.min + range.max) / 2}` : ''}
+            testID="input-preview-value"
+          />
+        </View>
+
+        <View style={styles.boundsRow}>
+          <View style={styles.boundInput}>
+            <NumericInput
+              label={t('profiles.scaleMin')}
+              unit=""
+              value={draft.min}
+              onChangeText={(text) => editor.setBound(metricKey, 'min', text)}
+              testID="input-range-min"
+            />
+          </View>
+          <View style={styles.boundInput}>
+            <NumericInput
+              label={t('profiles.scaleMax')}
+              unit=""
+              value={draft.max}
+              onChangeText={(text) => editor.setBound(metricKey, 'max', text)}
+              testID="input-range-max"
+            />
+          </View>
+        </View>
+
+        <ZoneEditor
+          zones={draft.zones}
+          unit={range.unit}
+          invalidIndices={metricDiagnostics
+            .filter((diagnostic) => diagnostic.severity === 'error')
+            .flatMap((diagnostic) =>
+              diagnostic.zoneIndex === undefined ? [] : [diagnostic.zoneIndex]
+            )}
+          onChange={(index, zone) => editor.setZone(metricKey, index, zone)}
+          onAdd={() => editor.addZone(metricKey)}
+          onRemove={(index) => editor.removeZone(metricKey, index)}
+          testID="zone-editor"
+        />
+
+        {metricDiagnostics.map((diagnostic, index) => (
+          <Text
+            key={`${diagnostic.code}-${index}`}
+            style={[
+              styles.diagnostic,
+              { color: diagnostic.severity === 'error' ? colors.zone.red : colors.text.secondary },
+            ]}
+          >
+            {diagnostic.message}
+          </Text>
+        ))}
+        {otherErrorCount > 0 && (
+          <Text style={[styles.diagnostic, { color: colors.zone.red }]}>
+            {t(otherErrorCount === 1 ? 'profiles.otherErrorsOne' : 'profiles.otherErrorsOther', {
+              count: otherErrorCount,
+            })}
+          </Text>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.button,
+              pressed && styles.buttonPressed,
+              !canSave && styles.buttonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={!canSave}
+            accessibilityRole="button"
+            accessibilityLabel={t('profiles.save')}
+            accessibilityState={{ disabled: !canSave }}
+          >
+            <Text style={styles.buttonText}>{t('profiles.save')}</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.secondaryButton,
+              pressed && styles.secondaryButtonPressed,
+            ]}
+            onPress={handleReset}
+            accessibilityRole="button"
+            accessibilityLabel={t('profiles.reset')}
+          >
+            <Text style={styles.secondaryButtonText}>{t('profiles.reset')}</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 24,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 12,
+    },
+    editorTitle: {
+      marginTop: 24,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.text.secondary,
+    },
+    profileRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 14,
+      marginBottom: 10,
+    },
+    profileName: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    action: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginLeft: 16,
+    },
+    deleteAction: {
+      color: colors.zone.red,
+    },
+    fieldLabel: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    textInput: {
+      height: 48,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      fontSize: 16,
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+      marginBottom: 16,
+    },
+    previewCard: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 16,
+    },
+    previewLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    previewHint: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    gaugeContainer: {
+      alignItems: 'center',
+    },
+    boundsRow: {
+      flexDirection: 'row',
+      marginHorizontal: -6,
+    },
+    boundInput: {
+      flex: 1,
+      marginHorizontal: 6,
+    },
+    diagnostic: {
+      fontSize: 13,
+      lineHeight: 19,
+    },
+    buttonContainer: {
+      marginTop: 24,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginBottom: 12,
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+    secondaryButton: {
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.ui.primaryButton,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButtonPressed: {
+      backgroundColor: colors.surface.elevated,
+    },
+    secondaryButtonText: {
+      color: colors.ui.primaryButton,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
+
+export default ProfilesScreen;
@@ -0,0 +1,351 @@
+/**
+ * Training quiz screen.
+ * Presents a generated graft's readings, asks the learner which scenario
+ * they fit and only then reveals the gauges, the interpretation and the
+ * correct answer. Answers are recorded so progress can be followed
+ * across sessions.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, Pressable, StyleSheet, Alert } from 'react-native';
+import {
+  MetricKey,
+  QuizAnswer,
+  TrainingCase,
+  TrainingScenario,
+  METRIC_KEYS,
+  TRAINING_SCENARIOS,
+} from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { usePreferences } from '../context/PreferencesContext';
+import { useQuizScoreStore } from '../context/StorageContext';
+import { useAnnounceOnChange } from '../hooks/useAnnounceOnChange';
+import { useDashboardLayout } from '../hooks/useDashboardLayout';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { formatDisplayValue } from '../utils/gaugeMath';
+import { getConduitLabel, getMetricLabel, getTargetVesselLabel } from '../utils/i18n';
+import { isMeasured } from '../utils/metricValues';
+import { getQuizStats } from '../utils/quiz';
+import { createId, createSession } from '../utils/session';
+import { generateTrainingCase } from '../utils/trainingCases';
+import { fromBaseValue, getDisplayRange } from '../utils/units';
+import GraftResults from '../components/GraftResults';
+import QuizProgress from '../components/QuizProgress';
+import VerdictPanel from '../components/VerdictPanel';
+
+/** Padding around the screen content */
+const SCREEN_PADDING = 20;
+
+/**
+ * QuizScreen keeps one case at a time. Each case is answered once; the
+ * learner then moves on to a freshly generated one.
+ */
+const QuizScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const store = useQuizScoreStore();
+  const { units } = usePreferences().preferences;
+  const { locale, t } = useI18n();
+  const { columns, isCompact } = useDashboardLayout(SCREEN_PADDING);
+  const [trainingCase, setTrainingCase] = useState<TrainingCase>(() => generateTrainingCase());
+  const [answer, setAnswer] = useState<TrainingScenario | null>(null);
+  const [answers, setAnswers] = useState<readonly QuizAnswer[]>([]);
+  const { graft, scenario } = trainingCase;
+  const isCorrect = answer === scenario;
+
+  const stats = useMemo(() => getQuizStats(answers), [answers]);
+  // Single-graft session so the verdict panel can interpret the case
+  const session = useMemo(() => ({ ...createSession(), grafts: [graft] }), [graft]);
+
+  useEffect(() => {
+    let isActive = true;
+
+    store
+      .list()
+      .then((stored) => {
+        if (!isActive) return;
+        // Answers given before the load finished may already be stored
+        setAnswers((prev) => {
+          const known = new Set(prev.map((answer) => answer.id));
+          return [...prev, ...stored.filter((answer) => !known.has(answer.id))];
+        });
+      })
+      .catch(() => {
+        // Start from an empty record when the store cannot be read
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [store]);
+
+  /**
+   * Formats a reading of the case in the preferred unit, without any zone cue.
+   */
+  const formatReading = (key: MetricKey): string => {
+    const value = graft.values[key];
+    if (!isMeasured(value)) return t('gauge.notMeasured');
+    const range = getDisplayRange(key, graft.profileId, units);
+    const display = fromBaseValue(key, value, units[key]);
+    return [formatDisplayValue(display, range.validation.decimals, locale), range.unit]
+      .join(' ')
+      .trim();
+  };
+
+  const resultMessage =
+    answer === null
+      ? null
+      : isCorrect
+        ? t('quiz.correct')
+        : t('quiz.incorrect', { scenario: t(`scenario.${scenario}` as const) });
+  useAnnounceOnChange(answer, resultMessage);
+
+  /**
+   * Records the learner's choice and reveals the case.
+   */
+  const handleAnswer = useCallback(
+    (choice: TrainingScenario) => {
+      if (answer !== null) return;
+      const recorded: QuizAnswer = {
+        id: createId(),
+        answeredAt: Date.now(),
+        scenario,
+        answer: choice,
+      };
+      setAnswer(choice);
+      setAnswers((prev) => [recorded, ...prev]);
+      store.record(recorded).catch(() => {
+        // The answer still counts for this run of the app
+      });
+    },
+    [answer, scenario, store]
+  );
+
+  const handleNext = useCallback(() => {
+    setTrainingCase(generateTrainingCase());
+    setAnswer(null);
+  }, []);
+
+  const handleReset = useCallback(() => {
+    Alert.alert(t('quiz.resetTitle'), t('quiz.resetMessage'), [
+      { text: t('quiz.cancel'), style: 'cancel' },
+      {
+        text: t('quiz.resetConfirm'),
+        style: 'destructive',
+        onPress: () => {
+          setAnswers([]);
+          store.clear().catch(() => {
+            // Cleared for this run of the app
+          });
+        },
+      },
+    ]);
+  }, [store, t]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('quiz.title')}</Text>
+        <Text style={styles.subtitle}>{t('quiz.subtitle')}</Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.graftName}>{graft.name}</Text>
+        <Text style={styles.route}>
+          {getConduitLabel(graft.conduit, locale)} → {getTargetVesselLabel(graft.target, locale)}
+        </Text>
+        {METRIC_KEYS.map((key) => {
+          const reading = formatReading(key);
+          return (
+            <View
+              key={key}
+              style={styles.reading}
+              accessible
+              accessibilityLabel={`${getMetricLabel(key, locale)}: ${reading}`}
+            >
+              <Text style={styles.readingLabel}>{getMetricLabel(key, locale)}</Text>
+              <Text style={styles.readingValue}>{reading}</Text>
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={styles.question}>{t('quiz.question')}</Text>
+      {TRAINING_SCENARIOS.map((choice) => {
+        const isRevealedCorrect = answer !== null && choice === scenario;
+        const isRevealedWrong = answer === choice && !isCorrect;
+        return (
+          <Pressable
+            key={choice}
+            style={({ pressed }) => [
+              styles.choice,
+              pressed && answer === null && styles.choicePressed,
+              isRevealedCorrect && { borderColor: colors.zone.green },
+              isRevealedWrong && { borderColor: colors.zone.red },
+            ]}
+            onPress={() => handleAnswer(choice)}
+            disabled={answer !== null}
+            accessibilityRole="button"
+            accessibilityLabel={t(`scenario.${choice}` as const)}
+            accessibilityState={{ disabled: answer !== null, selected: answer === choice }}
+            testID={`quiz-choice-${choice}`}
+          >
+            <Text style={styles.choiceText}>
+              {isRevealedCorrect ? '✓ ' : isRevealedWrong ? '✕ ' : ''}
+              {t(`scenario.${choice}` as const)}
+            </Text>
+          </Pressable>
+        );
+      })}
+
+      {answer !== null && (
+        <View style={styles.reveal} testID="quiz-reveal">
+          <Text
+            style={[styles.result, { color: isCorrect ? colors.zone.green : colors.zone.red }]}
+            accessibilityRole="header"
+          >
+            {resultMessage}
+          </Text>
+          <Text style={styles.explanation}>{t(`scenarioExplanation.${scenario}` as const)}</Text>
+
+          <VerdictPanel session={session} testID="quiz-verdict" />
+          <GraftResults graft={graft} columns={columns} compact={isCompact} />
+
+          <Pressable
+            style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+            onPress={handleNext}
+            accessibilityRole="button"
+            accessibilityLabel={t('quiz.next')}
+            testID="quiz-next"
+          >
+            <Text style={styles.buttonText}>{t('quiz.next')}</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <QuizProgress stats={stats} onReset={handleReset} testID="quiz-progress" />
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: SCREEN_PADDING,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 20,
+    },
+    graftName: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text.primary,
+      letterSpacing: -0.25,
+    },
+    route: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      marginTop: 2,
+      marginBottom: 8,
+    },
+    reading: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderTopColor: colors.surface.border,
+    },
+    readingLabel: {
+      fontSize: 15,
+      color: colors.text.secondary,
+    },
+    readingValue: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    question: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 12,
+    },
+    choice: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 10,
+      borderWidth: 2,
+      borderColor: colors.surface.border,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+      marginBottom: 10,
+    },
+    choicePressed: {
+      backgroundColor: colors.surface.elevated,
+    },
+    choiceText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    reveal: {
+      marginTop: 10,
+    },
+    result: {
+      fontSize: 20,
+      fontWeight: '700',
+      marginBottom: 6,
+      letterSpacing: -0.25,
+    },
+    explanation: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+      marginBottom: 16,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginBottom: 24,
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
+
+export default QuizScreen;
@@ -1,42 +1,61 @@
 /**
- * Results screen displaying gauge visualizations for all metrics.
- * Receives metric values via URL params and renders GaugeCards.
+ * Results screen displaying gauge visualizations for every graft.
+ * Reads the current surgical session and renders the interpretation
+ * verdict and a session overview, followed by one group of GaugeCards
+ * per graft. On wide windows the cards form a dashboard grid.
  */
 
-import React, { useMemo } from 'react';
-import { View, Text, ScrollView, StyleSheet, Pressable, Linking } from 'react-native';
-import { useLocalSearchParams } from 'expo-router';
-import { MetricKey, MetricValues, METRIC_KEYS } from '../types/metrics';
-import { REFERENCE_RANGES } from '../constants/referenceRanges';
-import { SURFACE_COLORS, TEXT_COLORS } from '../constants/colors';
-import GaugeCard from '../components/GaugeCard';
+import React, { useCallback, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Pressable, Linking, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MetricKey } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useSession } from '../context/SessionContext';
+import { useAssessmentHistory } from '../context/StorageContext';
+import { useDashboardLayout } from '../hooks/useDashboardLayout';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import SessionOverview from '../components/SessionOverview';
+import VerdictPanel from '../components/VerdictPanel';
+import GraftResults from '../components/GraftResults';
+
+/** Padding around the screen content */
+const SCREEN_PADDING = 20;
 
 /**
- * ResultsScreen displays a scrollable list of GaugeCards,
- * one for each CABG metric with the user-entered value.
+ * ResultsScreen displays a scrollable overview of the session and
+ * the gauges of each graft with its user-entered values.
  */
 const ResultsScreen = () => {
-  const params = useLocalSearchParams<Record<MetricKey, string>>();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { session } = useSession();
+  const history = useAssessmentHistory();
+  const { t } = useI18n();
+  const { columns, isCompact } = useDashboardLayout(SCREEN_PADDING);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
 
   /**
-   * Parse URL params into numeric metric values.
-   * Memoized to avoid recalculation on re-renders.
+   * Stores a snapshot of the session in the local history.
    */
-  const metricValues = useMemo((): MetricValues => {
-    const values: Partial<MetricValues> = {};
-
-    METRIC_KEYS.forEach((key) => {
-      const paramValue = params[key];
-      if (typeof paramValue === 'string') {
-        const parsed = parseFloat(paramValue);
-        values[key] = isNaN(parsed) ? 0 : parsed;
-      } else {
-        values[key] = 0;
-      }
-    });
+  const handleSave = useCallback(async () => {
+    try {
+      const saved = await history.save(session);
+      setSavedAt(saved.savedAt);
+    } catch {
+      Alert.alert(t('results.saveFailedTitle'), t('results.saveFailedMessage'));
+    }
+  }, [history, session, t]);
 
-    return values as MetricValues;
-  }, [params]);
+  /**
+   * Opens a metric's readings across the surgical phases.
+   */
+  const handleShowTimeline = useCallback(
+    (graftId: string, key: MetricKey) => {
+      router.push({ pathname: '/timeline', params: { graftId, metric: key } });
+    },
+    [router]
+  );
 
   return (
     <ScrollView
@@ -44,33 +63,53 @@ const ResultsScreen = () => {
       contentContainerStyle={styles.scrollContent}
     >
       <View style={styles.header}>
-        <Text style={styles.title}>Assessment Results</Text>
-        <Text style={styles.subtitle}>
-          Visual representation of entered CABG metrics
-        </Text>
+        <Text style={styles.title}>{t('results.title')}</Text>
+        <Text style={styles.subtitle}>{t('results.subtitle')}</Text>
       </View>
 
-      <View style={styles.cardsContainer}>
-        {METRIC_KEYS.map((key) => {
-          const range = REFERENCE_RANGES[key];
-          const value = metricValues[key];
+      {session.grafts.length === 0 ? (
+        <Text style={styles.emptyText}>{t('results.empty')}</Text>
+      ) : (
+        <>
+          <VerdictPanel session={session} testID="verdict-panel" />
+          <SessionOverview session={session} testID="session-overview" />
+        </>
+      )}
 
-          return (
-            <GaugeCard
-              key={key}
-              metricKey={key}
-              value={value}
-              range={range}
-              testID={`gauge-card-${key}`}
-            />
-          );
-        })}
+      <View style={styles.cardsContainer}>
+        {session.grafts.map((graft) => (
+          <GraftResults
+            key={graft.id}
+            graft={graft}
+            columns={columns}
+            compact={isCompact}
+            onShowTimeline={(key) => handleShowTimeline(graft.id, key)}
+          />
+        ))}
       </View>
 
+      {session.grafts.length > 0 && (
+        <View style={styles.buttonContainer}>
+          <Pressable
+            style={({ pressed }) => [
+              styles.button,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={handleSave}
+            accessibilityRole="button"
+            accessibilityLabel={t('results.save')}
+          >
+            <Text style={styles.buttonText}>
+              {savedAt === null ? t('results.save') : t('results.saved')}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+
       <View style={styles.disclaimer}>
         <Pressable onPress={() => Linking.openURL('https://www.linkedin.com/in/resci')}>
           <Text style={styles.disclaimerText}>
-            Made with ❤️ by <Text style={styles.linkedText}>Alberto Rescigno</Text>
+            {t('results.madeBy')} <Text style={styles.linkedText}>Alberto Rescigno</Text>
           </Text>
         </Pressable>
       </View>
@@ -78,46 +117,73 @@ const ResultsScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: SURFACE_COLORS.background,
-  },
-  scrollContent: {
-    padding: 20,
-    paddingBottom: 40,
-  },
-  header: {
-    marginBottom: 20,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: '700',
-    color: TEXT_COLORS.primary,
-    marginBottom: 8,
-    letterSpacing: -0.5,
-  },
-  subtitle: {
-    fontSize: 15,
-    color: TEXT_COLORS.secondary,
-    lineHeight: 22,
-  },
-  cardsContainer: {
-    marginBottom: 16,
-  },
-  disclaimer: {
-    paddingVertical: 16,
-    alignItems: 'center',
-  },
-  disclaimerText: {
-    fontSize: 12,
-    color: TEXT_COLORS.tertiary,
-    fontStyle: 'italic',
-    textAlign: 'center',
-  },
-  linkedText: {
-    textDecorationLine: 'underline',
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: SCREEN_PADDING,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    cardsContainer: {
+      marginBottom: 16,
+    },
+    buttonContainer: {
+      marginBottom: 8,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+    disclaimer: {
+      paddingVertical: 16,
+      alignItems: 'center',
+    },
+    disclaimerText: {
+      fontSize: 12,
+      color: colors.text.tertiary,
+      fontStyle: 'italic',
+      textAlign: 'center',
+    },
+    linkedText: {
+      textDecorationLine: 'underline',
+    },
+  });
 
 export default ResultsScreen;
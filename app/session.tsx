@@ -0,0 +1,258 @@
+/**
+ * Session screen listing every graft assessed in the current CABG case.
+ * Grafts can be edited or removed before viewing the combined results,
+ * and revised grafts compared with their earlier assessment.
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, ScrollView, Pressable, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { GraftAssessment } from '../types/metrics';
+import { getReferenceProfile } from '../constants/referenceRanges';
+import { ThemeColors, getZoneColor } from '../constants/colors';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { useSession } from '../context/SessionContext';
+import { getConduitLabel, getProfileLabel, getTargetVesselLabel } from '../utils/i18n';
+import { getWorstZone } from '../utils/session';
+
+/**
+ * SessionScreen renders one row per graft plus navigation actions.
+ */
+const SessionScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = useI18n();
+  const router = useRouter();
+  const { session, removeGraft, getGraft } = useSession();
+  const hasGrafts = session.grafts.length > 0;
+
+  /**
+   * Opens the before/after comparison of a revised graft.
+   */
+  const handleCompare = useCallback(
+    (graft: GraftAssessment) => {
+      router.push({ pathname: '/comparison', params: { graftId: graft.id } });
+    },
+    [router]
+  );
+
+  /**
+   * Opens the input screen pre-filled with an existing graft.
+   */
+  const handleEdit = useCallback(
+    (graft: GraftAssessment) => {
+      router.push({ pathname: '/', params: { graftId: graft.id } });
+    },
+    [router]
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('session.title')}</Text>
+        <Text style={styles.subtitle}>
+          {hasGrafts
+            ? t(session.grafts.length === 1 ? 'session.countOne' : 'session.countOther', {
+                count: session.grafts.length,
+              })
+            : t('session.empty')}
+        </Text>
+      </View>
+
+      {session.grafts.map((graft) => {
+        const earlier = graft.revisionOf ? getGraft(graft.revisionOf) : undefined;
+        return (
+          <View key={graft.id} style={styles.graftRow} testID={`session-graft-${graft.id}`}>
+            <View
+              style={[
+                styles.zoneMarker,
+                { backgroundColor: getZoneColor(getWorstZone(graft), colors) },
+              ]}
+            />
+            <View style={styles.graftInfo}>
+              <Text style={styles.graftName}>{graft.name}</Text>
+              <Text style={styles.graftDetail}>
+                {getConduitLabel(graft.conduit, locale)} →{' '}
+                {getTargetVesselLabel(graft.target, locale)}
+              </Text>
+              <Text style={styles.graftDetail}>
+                {t('session.profile', {
+                  profile: getProfileLabel(getReferenceProfile(graft.profileId), locale),
+                })}
+              </Text>
+              {earlier && (
+                <Text style={styles.graftDetail}>
+                  {t('session.revisionOf', { name: earlier.name })}
+                </Text>
+              )}
+            </View>
+            {earlier && (
+              <Pressable
+                onPress={() => handleCompare(graft)}
+                accessibilityRole="button"
+                accessibilityLabel={t('session.compareA11y', { name: graft.name })}
+              >
+                <Text style={styles.rowAction}>{t('session.compare')}</Text>
+              </Pressable>
+            )}
+            <Pressable
+              onPress={() => handleEdit(graft)}
+              accessibilityRole="button"
+              accessibilityLabel={t('session.editA11y', { name: graft.name })}
+            >
+              <Text style={styles.rowAction}>{t('session.edit')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => removeGraft(graft.id)}
+              accessibilityRole="button"
+              accessibilityLabel={t('session.removeA11y', { name: graft.name })}
+            >
+              <Text style={[styles.rowAction, styles.removeAction]}>{t('session.remove')}</Text>
+            </Pressable>
+          </View>
+        );
+      })}
+
+      <View style={styles.buttonContainer}>
+        <Pressable
+          style={({ pressed }) => [
+            styles.button,
+            pressed && styles.buttonPressed,
+            !hasGrafts && styles.buttonDisabled,
+          ]}
+          onPress={() => router.push('/results')}
+          disabled={!hasGrafts}
+          accessibilityRole="button"
+          accessibilityLabel={t('session.viewResults')}
+          accessibilityState={{ disabled: !hasGrafts }}
+        >
+          <Text style={styles.buttonText}>{t('session.viewResults')}</Text>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && styles.secondaryButtonPressed,
+          ]}
+          onPress={() => router.dismissTo('/')}
+          accessibilityRole="button"
+          accessibilityLabel={t('session.addGraft')}
+        >
+          <Text style={styles.secondaryButtonText}>{t('session.addGraft')}</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    graftRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 12,
+    },
+    zoneMarker: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginRight: 12,
+    },
+    graftInfo: {
+      flex: 1,
+    },
+    graftName: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    graftDetail: {
+      fontSize: 13,
+      color: colors.text.secondary,
+      marginTop: 2,
+    },
+    rowAction: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginLeft: 16,
+    },
+    removeAction: {
+      color: colors.zone.red,
+    },
+    buttonContainer: {
+      marginTop: 16,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+    secondaryButton: {
+      marginTop: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.ui.primaryButton,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButtonPressed: {
+      backgroundColor: colors.surface.elevated,
+    },
+    secondaryButtonText: {
+      color: colors.ui.primaryButton,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
+
+export default SessionScreen;
@@ -0,0 +1,244 @@
+/**
+ * Settings screen for user preferences.
+ * Lets users pick the interface language, the display theme, how zones
+ * are told apart, the gauge style, how gauges handle off-scale values
+ * the unit each metric is entered and displayed in and the live feed
+ * endpoint, and links to the reference range editor.
+ */
+
+import React from 'react';
+import { View, Text, TextInput, ScrollView, Pressable, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { GAUGE_VARIANTS, METRIC_KEYS, SCALE_MODES } from '../types/metrics';
+import { METRIC_UNITS } from '../constants/units';
+import { LOCALES, LOCALE_INFO } from '../constants/i18n';
+import { THEME_IDS, ThemeColors, ThemePreference, ZONE_ENCODINGS } from '../constants/colors';
+import { usePreferences } from '../context/PreferencesContext';
+import { DEFAULT_PREFERENCES } from '../storage/preferencesStore';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { isStreamUrl } from '../utils/streamClient';
+import { getUnit } from '../utils/units';
+import { LocalePreference, getMetricLabel } from '../utils/i18n';
+import ChipSelector from '../components/ChipSelector';
+
+/** Metrics offering more than one unit */
+const CONVERTIBLE_KEYS = METRIC_KEYS.filter((key) => METRIC_UNITS[key].length > 1);
+
+/**
+ * SettingsScreen renders one section per preference group.
+ */
+const SettingsScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const {
+    preferences,
+    setPreferredUnit,
+    setLocale,
+    setTheme,
+    setZoneEncoding,
+    setScaleMode,
+    setGaugeVariant,
+    setStreamUrl,
+  } = usePreferences();
+  const { locale, t } = useI18n();
+
+  const localeOptions: { value: LocalePreference; label: string }[] = [
+    { value: 'system', label: t('settings.system') },
+    ...LOCALES.map((id) => ({ value: id, label: LOCALE_INFO[id].label })),
+  ];
+  const themeOptions: { value: ThemePreference; label: string }[] = [
+    { value: 'system', label: t('settings.system') },
+    ...THEME_IDS.map((id) => ({ value: id, label: t(`theme.${id}` as const) })),
+  ];
+  const zoneEncodingOptions = ZONE_ENCODINGS.map((id) => ({
+    value: id,
+    label: t(`zoneEncoding.${id}` as const),
+  }));
+  const gaugeVariantOptions = GAUGE_VARIANTS.map((id) => ({
+    value: id,
+    label: t(`gaugeVariant.${id}` as const),
+  }));
+  const scaleModeOptions = SCALE_MODES.map((id) => ({
+    value: id,
+    label: t(`scaleMode.${id}` as const),
+  }));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('settings.title')}</Text>
+        <Text style={styles.subtitle}>{t('settings.subtitle')}</Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+        <Text style={styles.hint}>{t('settings.languageHint')}</Text>
+        <ChipSelector
+          options={localeOptions}
+          selected={preferences.locale}
+          onSelect={setLocale}
+          testID="select-locale"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.theme')}</Text>
+        <Text style={styles.hint}>{t('settings.themeHint')}</Text>
+        <ChipSelector
+          options={themeOptions}
+          selected={preferences.theme}
+          onSelect={setTheme}
+          testID="select-theme"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.zoneEncoding')}</Text>
+        <Text style={styles.hint}>{t('settings.zoneEncodingHint')}</Text>
+        <ChipSelector
+          options={zoneEncodingOptions}
+          selected={preferences.zoneEncoding}
+          onSelect={setZoneEncoding}
+          testID="select-zone-encoding"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.gaugeVariant')}</Text>
+        <Text style={styles.hint}>{t('settings.gaugeVariantHint')}</Text>
+        <ChipSelector
+          options={gaugeVariantOptions}
+          selected={preferences.gaugeVariant}
+          onSelect={setGaugeVariant}
+          testID="select-gauge-variant"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.scaleMode')}</Text>
+        <Text style={styles.hint}>{t('settings.scaleModeHint')}</Text>
+        <ChipSelector
+          options={scaleModeOptions}
+          selected={preferences.scaleMode}
+          onSelect={setScaleMode}
+          testID="select-scale-mode"
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.units')}</Text>
+        <Text style={styles.hint}>{t('settings.unitsHint')}</Text>
+        {CONVERTIBLE_KEYS.map((key) => (
+          <ChipSelector
+            key={key}
+            label={getMetricLabel(key, locale)}
+            options={METRIC_UNITS[key].map((unit) => ({ value: unit.id, label: unit.label }))}
+            selected={getUnit(key, preferences.units[key]).id}
+            onSelect={(unitId) => setPreferredUnit(key, unitId)}
+            testID={`select-unit-${key}`}
+          />
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('settings.streamUrl')}</Text>
+        <Text style={styles.hint}>{t('settings.streamUrlHint')}</Text>
+        <TextInput
+          style={[styles.input, !isStreamUrl(preferences.streamUrl) && styles.inputError]}
+          value={preferences.streamUrl}
+          onChangeText={setStreamUrl}
+          placeholder={DEFAULT_PREFERENCES.streamUrl}
+          placeholderTextColor={colors.text.tertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          returnKeyType="done"
+          testID="input-stream-url"
+          accessibilityLabel={t('settings.streamUrlA11y')}
+        />
+        {!isStreamUrl(preferences.streamUrl) && (
+          <Text style={styles.inputIssue}>{t('settings.streamUrlInvalid')}</Text>
+        )}
+      </View>
+
+      <Pressable
+        style={styles.card}
+        onPress={() => router.push('/profiles')}
+        accessibilityRole="link"
+        accessibilityLabel={t('settings.profilesLinkA11y')}
+      >
+        <Text style={styles.sectionTitle}>{t('settings.profilesLink')}</Text>
+        <Text style={styles.hint}>{t('settings.profilesHint')}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 24,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginBottom: 16,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginBottom: 4,
+    },
+    hint: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      lineHeight: 20,
+      marginBottom: 12,
+    },
+    input: {
+      height: 48,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      fontSize: 16,
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+    },
+    inputError: {
+      borderColor: colors.zone.red,
+    },
+    inputIssue: {
+      fontSize: 13,
+      color: colors.zone.red,
+      marginTop: 4,
+    },
+  });
+
+export default SettingsScreen;
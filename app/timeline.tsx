@@ -0,0 +1,101 @@
+/**
+ * Timeline screen showing one metric of a graft across the surgical
+ * phases it was measured at. Opened from a GaugeCard with `graftId` and
+ * `metric` params.
+ */
+
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { METRIC_KEYS } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { usePreferences } from '../context/PreferencesContext';
+import { useSession } from '../context/SessionContext';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import { getMetricLabel } from '../utils/i18n';
+import { isMeasured } from '../utils/metricValues';
+import { getMetricTimeline } from '../utils/timeline';
+import { fromBaseValue, getDisplayRange } from '../utils/units';
+import MetricTimeline from '../components/MetricTimeline';
+
+/**
+ * TimelineScreen renders the metric's readings in the preferred unit,
+ * or a note when the graft has no phase readings.
+ */
+const TimelineScreen = () => {
+  const styles = useThemedStyles(createStyles);
+  const { graftId, metric } = useLocalSearchParams<{ graftId?: string; metric?: string }>();
+  const { getGraft } = useSession();
+  const { units } = usePreferences().preferences;
+  const { locale, t } = useI18n();
+  const graft = graftId ? getGraft(graftId) : undefined;
+  const key = METRIC_KEYS.find((candidate) => candidate === metric);
+  const range = graft && key ? getDisplayRange(key, graft.profileId, units) : null;
+  const points =
+    graft && key
+      ? getMetricTimeline(graft.timeline, key).map((point) => ({
+          ...point,
+          value: isMeasured(point.value) ? fromBaseValue(key, point.value, units[key]) : null,
+        }))
+      : [];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      {graft && key && range && points.length > 0 ? (
+        <>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {t('timeline.title', { metric: getMetricLabel(key, locale), name: graft.name })}
+            </Text>
+            <Text style={styles.subtitle}>{t('timeline.subtitle')}</Text>
+          </View>
+          <MetricTimeline
+            points={points}
+            range={range}
+            label={getMetricLabel(key, locale)}
+            decimals={range.validation.decimals}
+            testID={`metric-timeline-${key}`}
+          />
+        </>
+      ) : (
+        <Text style={styles.emptyText}>{t('timeline.empty')}</Text>
+      )}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+  });
+
+export default TimelineScreen;
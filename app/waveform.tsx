@@ -0,0 +1,371 @@
+/**
+ * Waveform analysis screen.
+ * Users paste a sampled transit-time flow waveform and optional R-peak
+ * times; MF, PI, DF and BF are computed and fed into the results screen.
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { FlowWaveformData, MetricValues, DEFAULT_METRIC_VALUES } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useSession } from '../context/SessionContext';
+import { usePreferences } from '../context/PreferencesContext';
+import { useGraftDetails } from '../hooks/useGraftDetails';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import {
+  FlowAnalysisResult,
+  analyzeFlowWaveform,
+  applyFlowAnalysis,
+  parseFlowSamples,
+  parseTimeList,
+} from '../utils/flowAnalysis';
+import { formatDisplayValue } from '../utils/gaugeMath';
+import { parseMetricInput } from '../utils/metricValues';
+import { fromBaseValue, getDisplayRange, getUnit, valuesToBase } from '../utils/units';
+import { hasValidationErrors, validateMetricInput } from '../utils/metricValidation';
+import { getMetricLabel, localizeNumber } from '../utils/i18n';
+import GraftDetailsFields from '../components/GraftDetailsFields';
+import NumericInput from '../components/NumericInput';
+
+/** Flow-derived metrics shown in the analysis summary */
+const DERIVED_KEYS = ['MF', 'PI', 'DF', 'BF'] as const;
+
+/**
+ * WaveformScreen parses the pasted waveform, shows the derived metrics
+ * and adds the graft, including its waveform, to the session.
+ */
+const WaveformScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { addGraft } = useSession();
+  const { units } = usePreferences().preferences;
+  const { locale, t } = useI18n();
+  const details = useGraftDetails();
+
+  const [samplesText, setSamplesText] = useState('');
+  const [rPeaksText, setRPeaksText] = useState('');
+  const [aciText, setAciText] = useState('');
+  const [mapText, setMapText] = useState('');
+  const [waveform, setWaveform] = useState<FlowWaveformData | null>(null);
+  const [analysis, setAnalysis] = useState<FlowAnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Parses the text inputs and runs the flow analysis.
+   */
+  const handleAnalyze = useCallback(() => {
+    const samples = parseFlowSamples(samplesText);
+    const rPeaks = parseTimeList(rPeaksText);
+    const parsed: FlowWaveformData = rPeaks.length > 0 ? { samples, rPeaks } : { samples };
+
+    try {
+      setAnalysis(analyzeFlowWaveform(parsed));
+      setWaveform(parsed);
+      setError(null);
+    } catch (analysisError) {
+      setAnalysis(null);
+      setWaveform(null);
+      setError(
+        analysisError instanceof Error ? analysisError.message : t('waveform.analysisFailed')
+      );
+    }
+  }, [samplesText, rPeaksText, t]);
+
+  const aciRange = getDisplayRange('ACI', details.profileId, units);
+  const mapRange = getDisplayRange('MAP', details.profileId, units);
+  const aciIssues = validateMetricInput(aciText, aciRange, locale);
+  const mapIssues = validateMetricInput(mapText, mapRange, locale);
+  const isBlocked = hasValidationErrors([...aciIssues, ...mapIssues]);
+  const canViewResults = analysis !== null && !isBlocked;
+
+  /**
+   * Adds the analyzed graft to the session and opens the results.
+   * ACI and MAP are not derivable from flow and come from the inputs.
+   */
+  const handleViewResults = useCallback(() => {
+    if (!analysis || !waveform || isBlocked) return;
+
+    // ACI and MAP are entered in the preferred units
+    const baseValues: MetricValues = valuesToBase(
+      {
+        ...DEFAULT_METRIC_VALUES,
+        ACI: parseMetricInput(aciText, locale),
+        MAP: parseMetricInput(mapText, locale),
+      },
+      units
+    );
+
+    addGraft({
+      ...details.getDetails(),
+      values: applyFlowAnalysis(baseValues, analysis),
+      waveform,
+    });
+    router.push('/results');
+  }, [analysis, waveform, isBlocked, aciText, mapText, units, locale, details, addGraft, router]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('waveform.title')}</Text>
+          <Text style={styles.subtitle}>{t('waveform.subtitle')}</Text>
+        </View>
+
+        <GraftDetailsFields details={details} />
+
+        <Text style={styles.fieldLabel}>{t('waveform.samples')}</Text>
+        <TextInput
+          style={[styles.textArea, styles.samplesInput]}
+          value={samplesText}
+          onChangeText={setSamplesText}
+          placeholder={'time (s), flow (mL/min)\n0.00, 12.5\n0.01, 14.1'}
+          placeholderTextColor={colors.text.tertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="input-flow-samples"
+          accessibilityLabel={t('waveform.samplesA11y')}
+        />
+
+        <Text style={styles.fieldLabel}>{t('waveform.rPeaks')}</Text>
+        <TextInput
+          style={styles.textArea}
+          value={rPeaksText}
+          onChangeText={setRPeaksText}
+          placeholder="0.05, 0.87, 1.69"
+          placeholderTextColor={colors.text.tertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="input-r-peaks"
+          accessibilityLabel={t('waveform.rPeaksA11y')}
+        />
+        <Text style={styles.hint}>{t('waveform.rPeaksHint')}</Text>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && styles.secondaryButtonPressed,
+          ]}
+          onPress={handleAnalyze}
+          accessibilityRole="button"
+          accessibilityLabel={t('waveform.analyze')}
+        >
+          <Text style={styles.secondaryButtonText}>{t('waveform.analyze')}</Text>
+        </Pressable>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {analysis && (
+          <View style={styles.resultCard} testID="flow-analysis-result">
+            {DERIVED_KEYS.map((key) => {
+              const range = getDisplayRange(key, details.profileId, units);
+              const value = analysis[key];
+              return (
+                <View key={key} style={styles.resultRow}>
+                  <Text style={styles.resultLabel}>{getMetricLabel(key, locale)}</Text>
+                  <Text style={styles.resultValue}>
+                    {value === null
+                      ? '—'
+                      : formatDisplayValue(
+                          fromBaseValue(key, value, units[key]),
+                          1 + getUnit(key, units[key]).extraDecimals,
+                          locale
+                        )}
+                    {value !== null && range.unit.length > 0 ? ` ${range.unit}` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.inputsContainer}>
+          <NumericInput
+            label={getMetricLabel('ACI', locale)}
+            unit={aciRange.unit}
+            value={aciText}
+            onChangeText={setAciText}
+            placeholder={`${localizeNumber(aciRange.min, locale)}–${localizeNumber(aciRange.max, locale)}`}
+            issues={aciIssues}
+            testID="input-ACI"
+          />
+          <NumericInput
+            label={getMetricLabel('MAP', locale)}
+            unit={mapRange.unit}
+            value={mapText}
+            onChangeText={setMapText}
+            placeholder={`${localizeNumber(mapRange.min, locale)}–${localizeNumber(mapRange.max, locale)}`}
+            issues={mapIssues}
+            testID="input-MAP"
+          />
+        </View>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.button,
+            pressed && styles.buttonPressed,
+            !canViewResults && styles.buttonDisabled,
+          ]}
+          onPress={handleViewResults}
+          disabled={!canViewResults}
+          accessibilityRole="button"
+          accessibilityLabel={t('waveform.viewResults')}
+          accessibilityState={{ disabled: !canViewResults }}
+        >
+          <Text style={styles.buttonText}>{t('waveform.viewResults')}</Text>
+        </Pressable>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    header: {
+      marginBottom: 24,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.text.secondary,
+      lineHeight: 22,
+    },
+    fieldLabel: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    textArea: {
+      minHeight: 64,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      fontSize: 15,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+      textAlignVertical: 'top',
+      marginBottom: 16,
+    },
+    samplesInput: {
+      minHeight: 160,
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.text.tertiary,
+      marginTop: -8,
+      marginBottom: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.zone.red,
+      marginTop: 12,
+    },
+    resultCard: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      padding: 16,
+      marginTop: 16,
+    },
+    resultRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+    },
+    resultLabel: {
+      fontSize: 15,
+      color: colors.text.secondary,
+    },
+    resultValue: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.value,
+    },
+    inputsContainer: {
+      marginTop: 24,
+      marginBottom: 8,
+    },
+    button: {
+      backgroundColor: colors.ui.primaryButton,
+      paddingVertical: 16,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    buttonPressed: {
+      backgroundColor: colors.ui.primaryButtonPressed,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      color: colors.text.inverse,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+    secondaryButton: {
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.ui.primaryButton,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    secondaryButtonPressed: {
+      backgroundColor: colors.surface.elevated,
+    },
+    secondaryButtonText: {
+      color: colors.ui.primaryButton,
+      fontSize: 17,
+      fontWeight: '600',
+      letterSpacing: 0.25,
+    },
+  });
+
+export default WaveformScreen;
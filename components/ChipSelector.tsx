@@ -0,0 +1,108 @@
+/**
+ * Single-choice selector rendered as a wrapping row of pill buttons.
+ * Used for picking small enumerations such as conduit type or target vessel.
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { ThemeColors } from '../constants/colors';
+import { useThemedStyles } from '../hooks/useTheme';
+
+/** A selectable option */
+export interface ChipOption<T extends string> {
+  readonly value: T;
+  readonly label: string;
+}
+
+interface ChipSelectorProps<T extends string> {
+  /** Display label shown above the chips; omit when a heading already names the choice */
+  readonly label?: string;
+  /** Available options in display order */
+  readonly options: readonly ChipOption<T>[];
+  /** Currently selected value */
+  readonly selected: T;
+  /** Callback when a chip is pressed */
+  readonly onSelect: (value: T) => void;
+  /** Test ID for testing purposes */
+  readonly testID?: string;
+}
+
+/**
+ * ChipSelector renders each option as a pill, highlighting the selected one.
+ */
+export const ChipSelector = <T extends string>({
+  label,
+  options,
+  selected,
+  onSelect,
+  testID,
+}: ChipSelectorProps<T>) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {label !== undefined && <Text style={styles.label}>{label}</Text>}
+      <View style={styles.chips}>
+        {options.map((option) => {
+          const isSelected = option.value === selected;
+          return (
+            <Pressable
+              key={option.value}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => onSelect(option.value)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+              accessibilityLabel={option.label}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginHorizontal: -4,
+    },
+    chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      backgroundColor: colors.surface.card,
+      margin: 4,
+    },
+    chipSelected: {
+      borderColor: colors.ui.primaryButton,
+      backgroundColor: colors.ui.primaryButton,
+    },
+    chipText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.primary,
+    },
+    chipTextSelected: {
+      color: colors.text.inverse,
+    },
+  });
+
+export default ChipSelector;
@@ -0,0 +1,197 @@
+/**
+ * Card comparing one metric of a graft before and after revision.
+ * Shows both readings on a single gauge, the signed change and how the
+ * metric's zone moved.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { GaugeMarker, ReferenceProfileId } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { LocaleId } from '../constants/i18n';
+import { usePreferences } from '../context/PreferencesContext';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { formatDisplayValue } from '../utils/gaugeMath';
+import { getMetricLabel } from '../utils/i18n';
+import { isMeasured } from '../utils/metricValues';
+import { MetricComparison } from '../utils/revision';
+import { fromBaseValue, getDisplayRange } from '../utils/units';
+import Gauge from './Gauge';
+import { DEFAULT_GAUGE_TICKS } from './GaugeMarkings';
+
+interface ComparisonCardProps {
+  /** Metric readings before and after revision, in the base unit */
+  readonly comparison: MetricComparison;
+  /** Profile of the assessment after revision; its scale and zones are drawn */
+  readonly profileId: ReferenceProfileId;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/** Minus sign used for negative changes */
+const MINUS_SIGN = '−';
+
+/**
+ * ComparisonCard renders the metric label with its signed change, the
+ * readings before and after revision, the zone change and a gauge
+ * filled to the value after revision. A hollow marker points at the
+ * value before revision and a filled one at the value after.
+ */
+export const ComparisonCard: React.FC<ComparisonCardProps> = ({
+  comparison,
+  profileId,
+  testID,
+}) => {
+  const { key, before, after, delta, beforeZone, afterZone, zoneChange } = comparison;
+  const unitId = usePreferences().preferences.units[key];
+  const { locale, t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const range = getDisplayRange(key, profileId, { [key]: unitId });
+  const decimals = range.validation.decimals;
+  const label = getMetricLabel(key, locale);
+
+  const toDisplay = (value: number) => fromBaseValue(key, value, unitId);
+  const formatReading = (value: number | null) =>
+    isMeasured(value)
+      ? [formatDisplayValue(toDisplay(value), decimals, locale), range.unit].join(' ').trim()
+      : t('gauge.notMeasured');
+  const formattedDelta = isMeasured(delta)
+    ? formatDelta(toDisplay(delta), decimals, locale)
+    : null;
+  const formattedDeltaWithUnit =
+    formattedDelta === null ? null : [formattedDelta, range.unit].join(' ').trim();
+
+  const markers: GaugeMarker[] = [];
+  if (isMeasured(before)) markers.push({ value: toDisplay(before), isHollow: true });
+  if (isMeasured(after)) markers.push({ value: toDisplay(after) });
+
+  const summary = [
+    t('comparison.a11yValues', {
+      metric: label,
+      before: formatReading(before),
+      after: formatReading(after),
+    }),
+    formattedDeltaWithUnit && t('comparison.a11yDelta', { delta: formattedDeltaWithUnit }),
+    beforeZone &&
+      afterZone &&
+      zoneChange &&
+      t('comparison.a11yZones', {
+        before: t(`zone.${beforeZone}` as const),
+        after: t(`zone.${afterZone}` as const),
+        change: t(`comparison.${zoneChange}` as const),
+      }),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <View style={styles.card} testID={testID} accessible accessibilityLabel={summary}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label}</Text>
+        {formattedDeltaWithUnit !== null && (
+          <Text style={styles.delta}>Δ {formattedDeltaWithUnit}</Text>
+        )}
+      </View>
+
+      <View style={styles.readings}>
+        <Text style={styles.reading}>
+          ▽ {t('comparison.before')}: {formatReading(before)}
+        </Text>
+        <Text style={styles.reading}>
+          ▼ {t('comparison.after')}: {formatReading(after)}
+        </Text>
+      </View>
+
+      {beforeZone && afterZone && zoneChange && (
+        <Text style={styles.zoneChange}>
+          <Text style={{ color: colors.zone[beforeZone] }}>
+            {t(`zone.${beforeZone}` as const)}
+          </Text>
+          {' → '}
+          <Text style={{ color: colors.zone[afterZone] }}>
+            {t(`zone.${afterZone}` as const)}
+          </Text>
+          {' · '}
+          {t(`comparison.${zoneChange}` as const)}
+        </Text>
+      )}
+
+      <View style={styles.gaugeContainer}>
+        <Gauge
+          value={isMeasured(after) ? toDisplay(after) : null}
+          min={range.min}
+          max={range.max}
+          zones={range.zones}
+          ticks={DEFAULT_GAUGE_TICKS}
+          showZoneLabels
+          scaleType={range.scaleType}
+          markers={markers}
+        />
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Formats a change with an explicit sign, e.g. "+12" or "−0.4".
+ */
+const formatDelta = (delta: number, decimals: number, locale: LocaleId): string => {
+  const magnitude = formatDisplayValue(Math.abs(delta), decimals, locale);
+  // No sign on changes that round to zero
+  if (Number(Math.abs(delta).toFixed(decimals)) === 0) return magnitude;
+  return `${delta > 0 ? '+' : MINUS_SIGN}${magnitude}`;
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 20,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      flex: 1,
+      letterSpacing: 0.15,
+    },
+    delta: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text.primary,
+    },
+    readings: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 4,
+    },
+    reading: {
+      fontSize: 14,
+      color: colors.text.secondary,
+    },
+    zoneChange: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.secondary,
+      marginBottom: 8,
+    },
+    gaugeContainer: {
+      alignItems: 'center',
+      marginVertical: 4,
+      marginHorizontal: -10,
+    },
+  });
+
+export default ComparisonCard;
@@ -0,0 +1,261 @@
+/**
+ * Flow waveform chart drawn with react-native-svg.
+ * Plots flow over time with systole/diastole shading, a zero line
+ * and highlighted backflow (negative flow) area.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { ClipPath, Defs, G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { FlowWaveformData } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { getPhaseIntervals } from '../utils/flowAnalysis';
+import { formatDisplayValue } from '../utils/gaugeMath';
+
+interface FlowWaveformProps {
+  /** Waveform to plot */
+  readonly waveform: FlowWaveformData;
+  /** Chart height in points; width follows the container */
+  readonly height?: number;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/** Space reserved around the plot area for axis labels */
+const PADDING = { top: 12, right: 12, bottom: 24, left: 40 } as const;
+
+/** Fraction of the flow span added above and below the curve */
+const HEADROOM = 0.1;
+
+/**
+ * FlowWaveform renders the chart once the container width is known.
+ */
+export const FlowWaveform: React.FC<FlowWaveformProps> = ({
+  waveform,
+  height = 180,
+  testID,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const chart = useMemo(() => {
+    if (width === 0 || waveform.samples.length < 2) return null;
+
+    const samples = [...waveform.samples].sort((a, b) => a.time - b.time);
+    const startTime = samples[0].time;
+    const endTime = samples[samples.length - 1].time;
+    const flows = samples.map((sample) => sample.flow);
+    // Always include zero so the baseline is visible
+    const rawMin = Math.min(0, ...flows);
+    const rawMax = Math.max(0, ...flows);
+    const span = rawMax - rawMin || 1;
+    const minFlow = rawMin - (rawMin < 0 ? span * HEADROOM : 0);
+    const maxFlow = rawMax + span * HEADROOM;
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const duration = endTime - startTime || 1;
+
+    const toX = (time: number) => PADDING.left + ((time - startTime) / duration) * plotWidth;
+    const toY = (flow: number) =>
+      PADDING.top + (1 - (flow - minFlow) / (maxFlow - minFlow)) * plotHeight;
+
+    const zeroY = toY(0);
+    const linePath = samples
+      .map((sample, index) => `${index === 0 ? 'M' : 'L'} ${toX(sample.time)} ${toY(sample.flow)}`)
+      .join(' ');
+    // Closed area between the curve and the zero line, clipped below zero for backflow
+    const areaPath = `${linePath} L ${toX(endTime)} ${zeroY} L ${toX(startTime)} ${zeroY} Z`;
+
+    const phases = getPhaseIntervals(waveform)
+      .map((interval) => ({
+        ...interval,
+        start: Math.max(interval.start, startTime),
+        end: Math.min(interval.end, endTime),
+      }))
+      .filter((interval) => interval.end > interval.start);
+
+    return {
+      startTime,
+      endTime,
+      minFlow,
+      maxFlow,
+      plotWidth,
+      plotHeight,
+      zeroY,
+      linePath,
+      areaPath,
+      phases,
+      toX,
+      toY,
+      hasBackflow: rawMin < 0,
+    };
+  }, [waveform, width, height]);
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>{t('waveformChart.title')}</Text>
+      <View style={{ height }} onLayout={handleLayout}>
+        {chart && (
+          <Svg width={width} height={height}>
+            <Defs>
+              <ClipPath id="backflowClip">
+                <Rect
+                  x={PADDING.left}
+                  y={chart.zeroY}
+                  width={chart.plotWidth}
+                  height={Math.max(0, PADDING.top + chart.plotHeight - chart.zeroY)}
+                />
+              </ClipPath>
+            </Defs>
+
+            <G>
+              {chart.phases.map((interval, index) => (
+                <Rect
+                  key={`${interval.phase}-${index}`}
+                  x={chart.toX(interval.start)}
+                  y={PADDING.top}
+                  width={chart.toX(interval.end) - chart.toX(interval.start)}
+                  height={chart.plotHeight}
+                  fill={interval.phase === 'systole' ? colors.chart.systole : colors.chart.diastole}
+                />
+              ))}
+            </G>
+
+            <Rect
+              x={PADDING.left}
+              y={PADDING.top}
+              width={chart.plotWidth}
+              height={chart.plotHeight}
+              fill="none"
+              stroke={colors.chart.grid}
+            />
+
+            {chart.hasBackflow && (
+              <Path d={chart.areaPath} fill={colors.chart.backflow} clipPath="url(#backflowClip)" />
+            )}
+
+            <Line
+              x1={PADDING.left}
+              y1={chart.zeroY}
+              x2={PADDING.left + chart.plotWidth}
+              y2={chart.zeroY}
+              stroke={colors.chart.zeroLine}
+              strokeWidth={1}
+              strokeDasharray="4 3"
+            />
+
+            <Path d={chart.linePath} fill="none" stroke={colors.chart.flowLine} strokeWidth={2} />
+
+            <SvgText
+              x={PADDING.left - 6}
+              y={PADDING.top + 4}
+              fontSize={11}
+              fill={colors.text.tertiary}
+              textAnchor="end"
+            >
+              {formatDisplayValue(chart.maxFlow, 0)}
+            </SvgText>
+            <SvgText
+              x={PADDING.left - 6}
+              y={chart.zeroY + 4}
+              fontSize={11}
+              fill={colors.text.tertiary}
+              textAnchor="end"
+            >
+              0
+            </SvgText>
+            <SvgText
+              x={PADDING.left}
+              y={height - 6}
+              fontSize={11}
+              fill={colors.text.tertiary}
+            >
+              {`${formatDisplayValue(chart.startTime, 2)} s`}
+            </SvgText>
+            <SvgText
+              x={PADDING.left + chart.plotWidth}
+              y={height - 6}
+              fontSize={11}
+              fill={colors.text.tertiary}
+              textAnchor="end"
+            >
+              {`${formatDisplayValue(chart.endTime, 2)} s`}
+            </SvgText>
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.legend}>
+        <LegendItem color={colors.chart.systole} label={t('waveformChart.systole')} />
+        <LegendItem color={colors.chart.diastole} label={t('waveformChart.diastole')} />
+        <LegendItem color={colors.chart.backflow} label={t('waveformChart.backflow')} />
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Color swatch with a label for the chart legend.
+ */
+const LegendItem: React.FC<{ color: string; label: string }> = ({ color, label }) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.legendItem}>
+      <View style={[styles.legendSwatch, { backgroundColor: color }]} />
+      <Text style={styles.legendLabel}>{label}</Text>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    title: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 8,
+      letterSpacing: 0.15,
+    },
+    legend: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      marginTop: 8,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 8,
+    },
+    legendSwatch: {
+      width: 12,
+      height: 12,
+      borderRadius: 2,
+      marginRight: 4,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    legendLabel: {
+      fontSize: 12,
+      color: colors.text.secondary,
+    },
+  });
+
+export default FlowWaveform;
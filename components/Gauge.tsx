@@ -1,67 +1,220 @@
 /**
  * Professional gauge component using @shipt/segmented-arc-for-react-native
  * Provides clean zone visualization with animated filling.
+ * With the color-safe zone encoding, segments are also hatched per zone.
+ * Filling is not animated while the OS reduced-motion setting is on.
+ * Values beyond the scale are clamped to its end and flagged with an
+ * arrow past that end. Tick marks and zone boundary labels are optional.
+ * Zone segments are sized by the scale type: linear, log or piecewise.
+ * Extra values can be pointed out with markers outside the arc.
+ *
+ * The 'needle' variant renders NeedleGauge instead; without a variant
+ * the user's preferred gauge style is used.
  */
 
 import React from 'react';
 import { View, StyleSheet, Text } from 'react-native';
+import Svg from 'react-native-svg';
 import { SegmentedArc } from '@shipt/segmented-arc-for-react-native';
-import { ZoneBoundary } from '../types/metrics';
-import { ZONE_COLORS } from '../constants/colors';
+import {
+  GaugeMarker,
+  GaugeTickOptions,
+  GaugeVariant,
+  MetricValue,
+  ScaleType,
+  ZoneBoundary,
+} from '../types/metrics';
+import { usePreferences } from '../context/PreferencesContext';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useTheme } from '../hooks/useTheme';
+import {
+  createSegmentedValueToAngle,
+  getScalePosition,
+  getSegmentArcAngles,
+  getZoneArcShares,
+  valueToPercentage,
+} from '../utils/gaugeMath';
+import { GaugeScale, ScaleMarker, ValueMarker, ZoneHatching } from './GaugeMarkings';
+import NeedleGauge from './NeedleGauge';
 
 interface GaugeProps {
-  readonly value: number;
+  /** Value to fill up to; null renders an empty, greyed-out gauge */
+  readonly value: MetricValue;
   readonly min: number;
   readonly max: number;
   readonly zones: readonly ZoneBoundary[];
   readonly size?: number;
+  /** Screen reader description; without one the gauge is decorative */
+  readonly accessibilityLabel?: string;
+  /** Tick marks to draw; none when omitted */
+  readonly ticks?: GaugeTickOptions;
+  /** Whether every zone start and end is labelled */
+  readonly showZoneLabels?: boolean;
+  /** How values map onto the arc; linear when omitted */
+  readonly scaleType?: ScaleType;
+  /** Values pointed out outside the arc, e.g. readings before and after revision */
+  readonly markers?: readonly GaugeMarker[];
+  /** Gauge style; defaults to the user's preference */
+  readonly variant?: GaugeVariant;
 }
 
+/** Stroke width of the zone arcs */
+const ARC_WIDTH = 16;
+
+/** Gap between zone arcs in degrees */
+const SEGMENT_SPACING = 2;
+
+/** Padding SegmentedArc keeps around its arcs */
+const ARC_MARGIN = 12;
+
+/** Height SegmentedArc leaves below the arc centre */
+const ARC_BOTTOM_MARGIN = ARC_MARGIN * 1.5;
+
+/**
+ * Gauge picks the segmented-arc or needle rendering.
+ */
+export const Gauge: React.FC<GaugeProps> = ({ variant, ...props }) => {
+  const preferredVariant = usePreferences().preferences.gaugeVariant;
+
+  return (variant ?? preferredVariant) === 'needle' ? (
+    <NeedleGauge {...props} />
+  ) : (
+    <SegmentedArcGauge {...props} />
+  );
+};
+
 /**
- * Gauge component using segmented arcs for zone visualization
+ * Gauge component using segmented arcs for zone visualization.
+ * Zone colors come from the active theme.
  */
-export const Gauge: React.FC<GaugeProps> = ({
+const SegmentedArcGauge: React.FC<Omit<GaugeProps, 'variant'>> = ({
   value,
   min,
   max,
   zones,
   size = 200,
+  accessibilityLabel,
+  ticks,
+  showZoneLabels = false,
+  scaleType = 'linear',
+  markers = [],
 }) => {
-  // Calculate percentage (0-100)
-  const percentage = Math.max(0, Math.min(100, ((value - min) / (max - min)) * 100));
-  
+  const { colors, showZoneCues } = useTheme();
+  const isReducedMotion = useReducedMotion();
+  const isMeasured = value !== null;
+  const radius = size * 0.35;
+  const center = radius + ARC_WIDTH + ARC_MARGIN;
+  const scalePosition = isMeasured ? getScalePosition(value, min, max) : 'within';
+
+  // Calculate percentage (0-100) of the arc to fill
+  const percentage = isMeasured ? valueToPercentage(value, min, max, scaleType, zones) * 100 : 0;
+  const shares = getZoneArcShares(zones, min, max, scaleType);
+
   // Convert zones to segments for SegmentedArc
-  const segments = zones.map((zone) => {
-    const zoneRange = zone.end - zone.start;
-    const totalRange = max - min;
-    const scale = zoneRange / totalRange;
-    
+  const segments = zones.map((zone, index) => {
+    const scale = shares[index];
+    const color = isMeasured ? colors.zone[zone.type] : colors.notMeasured;
+
     return {
       scale,
-      filledColor: ZONE_COLORS[zone.type],
-      emptyColor: `${ZONE_COLORS[zone.type]}40`, // 25% opacity
+      // Size arcs by their share of the scale so the fill follows the scale type
+      arcDegreeScale: scale,
+      filledColor: color,
+      emptyColor: `${color}40`, // 25% opacity
       data: { label: zone.type, start: zone.start, end: zone.end }
     };
   });
-  
+  const angles = getSegmentArcAngles(
+    segments.map((segment) => segment.scale),
+    SEGMENT_SPACING
+  );
+  const toAngle = createSegmentedValueToAngle(zones, angles, scaleType);
+  const hasMarkings =
+    (isMeasured && (showZoneCues || scalePosition !== 'within')) ||
+    ticks !== undefined ||
+    showZoneLabels ||
+    markers.length > 0;
+
   return (
-    <View style={[styles.container, { width: size, height: size * 0.7 }]}>
-      <SegmentedArc
-        segments={segments}
-        fillValue={percentage}
-        isAnimated={true}
-        animationDuration={1000}
-        animationDelay={100}
-        arcDegree={180}
-        radius={size * 0.35}
-        filledArcWidth={16}
-        emptyArcWidth={16}
-        spaceBetweenSegments={2}
-        capInnerColor={ZONE_COLORS.green}
-        capOuterColor="#FFFFFF"
-      >
-        {() => <View />}
-      </SegmentedArc>
+    <View
+      style={[styles.container, { width: size, height: size * 0.7 }]}
+      accessible={accessibilityLabel !== undefined}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <View>
+        <SegmentedArc
+          segments={segments}
+          fillValue={percentage}
+          isAnimated={!isReducedMotion}
+          animationDuration={1000}
+          animationDelay={100}
+          arcDegree={180}
+          radius={radius}
+          filledArcWidth={ARC_WIDTH}
+          emptyArcWidth={ARC_WIDTH}
+          spaceBetweenSegments={SEGMENT_SPACING}
+          capInnerColor={isMeasured ? colors.zone.green : colors.notMeasured}
+          capOuterColor={colors.surface.card}
+        >
+          {() => <View />}
+        </SegmentedArc>
+        {hasMarkings && (
+          <Svg
+            width={center * 2}
+            height={center + ARC_BOTTOM_MARGIN}
+            style={styles.overlay}
+            pointerEvents="none"
+          >
+            {isMeasured && showZoneCues && (
+              <ZoneHatching
+                zones={zones}
+                angles={angles}
+                centerX={center}
+                centerY={center}
+                radius={radius}
+                arcWidth={ARC_WIDTH}
+                stripeColor={colors.surface.card}
+              />
+            )}
+            <GaugeScale
+              min={min}
+              max={max}
+              zones={zones}
+              toAngle={toAngle}
+              ticks={ticks}
+              showZoneLabels={showZoneLabels}
+              centerX={center}
+              centerY={center}
+              radius={radius}
+              arcWidth={ARC_WIDTH}
+              color={colors.text.secondary}
+            />
+            {scalePosition !== 'within' && (
+              <ScaleMarker
+                position={scalePosition}
+                centerX={center}
+                centerY={center}
+                radius={radius}
+                arcWidth={ARC_WIDTH}
+                color={colors.text.primary}
+              />
+            )}
+            {markers.map((marker) => (
+              <ValueMarker
+                key={`${marker.value}-${marker.isHollow ? 'hollow' : 'filled'}`}
+                angle={toAngle(marker.value)}
+                isHollow={marker.isHollow}
+                centerX={center}
+                centerY={center}
+                radius={radius}
+                arcWidth={ARC_WIDTH}
+                color={colors.text.primary}
+              />
+            ))}
+          </Svg>
+        )}
+      </View>
     </View>
   );
 };
@@ -71,6 +224,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
 });
 
 export default Gauge;
@@ -3,21 +3,48 @@
  * Combines label, value display, and gauge into a cohesive card layout.
  */
 
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { MetricKey, MetricRange, ZoneType } from '../types/metrics';
-import { SURFACE_COLORS, TEXT_COLORS, ZONE_COLORS } from '../constants/colors';
-import { formatDisplayValue } from '../utils/gaugeMath';
-import { getZoneForValue } from '../constants/referenceRanges';
+import React, { useCallback } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  GaugeTickOptions,
+  GaugeVariant,
+  MetricKey,
+  MetricRange,
+  MetricValue,
+  ReferenceProfileId,
+  ScalePosition,
+  ZoneType,
+} from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { COMPACT_GAUGE_SIZE } from '../constants/layout';
+import { ZONE_CUES } from '../constants/zoneCues';
+import { extendRangeToFit, formatDisplayValue, getScalePosition } from '../utils/gaugeMath';
+import { isMeasured } from '../utils/metricValues';
+import { DEFAULT_PROFILE_ID, getZoneForRange } from '../constants/referenceRanges';
+import { usePreferences } from '../context/PreferencesContext';
+import { useAnnounceOnChange } from '../hooks/useAnnounceOnChange';
+import { I18nState, useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { getGaugeSummary, getMetricLabel, localizeNumber } from '../utils/i18n';
+import { fromBaseValue, getDisplayRange, getUnit } from '../utils/units';
 import Gauge from './Gauge';
+import { DEFAULT_GAUGE_TICKS } from './GaugeMarkings';
 
 interface GaugeCardProps {
   /** Metric key for zone lookup */
   readonly metricKey: MetricKey;
-  /** Current metric value */
-  readonly value: number;
-  /** Complete range configuration for the metric */
-  readonly range: MetricRange;
+  /** Current metric value in the base unit; null when not measured */
+  readonly value: MetricValue;
+  /** Reference profile the range and zones are resolved from */
+  readonly profileId?: ReferenceProfileId;
+  /** Gauge style; defaults to the user's preference */
+  readonly variant?: GaugeVariant;
+  /** Tick marks along the gauge scale */
+  readonly ticks?: GaugeTickOptions;
+  /** Smaller gauge and condensed text for dashboard grids */
+  readonly compact?: boolean;
+  /** Opens the metric's timeline; without it no timeline link is shown */
+  readonly onShowTimeline?: () => void;
   /** Optional test ID */
   readonly testID?: string;
 }
@@ -26,48 +53,155 @@ interface GaugeCardProps {
  * GaugeCard renders a complete metric visualization card containing:
  * - Metric label
  * - Current value with unit and zone-based color
- * - Semicircular gauge with needle
+ * - Semicircular gauge, as a filled arc or with a needle, with tick marks
+ *   and a label at every zone boundary
+ *
+ * Unmeasured metrics render a greyed-out gauge labelled "Not measured".
+ * Value, scale and zones are shown in the user's preferred unit
+ * and language, in the colors of the active theme. With the color-safe
+ * zone encoding the value is preceded by its zone symbol.
+ *
+ * Values beyond the reference scale are flagged under the value. In the
+ * 'extend' scale mode the gauge scale also grows until the value fits.
+ *
+ * Screen readers read the card as one summary and are told when the
+ * value moves into another zone.
+ *
+ * The compact variant shrinks the gauge and the text so a grid of cards
+ * fits on one tablet screen.
+ *
+ * Given `onShowTimeline`, the card links to the metric's readings across
+ * the surgical phases; screen readers get it as a custom action.
  */
 export const GaugeCard: React.FC<GaugeCardProps> = ({
   metricKey,
   value,
-  range,
+  profileId = DEFAULT_PROFILE_ID,
+  variant,
+  ticks = DEFAULT_GAUGE_TICKS,
+  compact = false,
+  onShowTimeline,
   testID,
 }) => {
-  // Determine the zone for color-coding the value display
-  const zone = getZoneForValue(metricKey, value);
-  const valueColor = getValueColor(zone);
+  const { units, scaleMode } = usePreferences().preferences;
+  const unitId = units[metricKey];
+  const { locale, t } = useI18n();
+  const { colors, showZoneCues } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const referenceRange = getDisplayRange(metricKey, profileId, { [metricKey]: unitId });
+  const displayValue = isMeasured(value) ? fromBaseValue(metricKey, value, unitId) : null;
+  const scalePosition = isMeasured(displayValue)
+    ? getScalePosition(displayValue, referenceRange.min, referenceRange.max)
+    : 'within';
+  const range =
+    scaleMode === 'extend' && isMeasured(displayValue)
+      ? extendRangeToFit(referenceRange, displayValue)
+      : referenceRange;
+  const scaleNote = getScaleNote(scalePosition, referenceRange, t, locale);
+  const decimals =
+    getDecimalPlaces(getUnit(metricKey).id) + getUnit(metricKey, unitId).extraDecimals;
+  const zone = isMeasured(displayValue) ? getZoneForRange(range, displayValue) : null;
+  const label = getMetricLabel(metricKey, locale);
+  const formattedValue = isMeasured(displayValue)
+    ? formatDisplayValue(displayValue, decimals, locale)
+    : null;
+  const summary = [
+    getGaugeSummary(
+      { label, value: formattedValue, unitId: range.unit, zone, min: range.min, max: range.max },
+      locale
+    ),
+    scaleNote,
+  ]
+    .filter(Boolean)
+    .join(', ');
 
-  // Format the display value appropriately
-  const displayValue = formatDisplayValue(value, getDecimalPlaces(range.unit));
+  const timelineLabel = t('timeline.linkA11y', { metric: label });
+
+  /**
+   * Opens the timeline from the screen reader's custom action.
+   */
+  const handleAccessibilityAction = useCallback(() => {
+    onShowTimeline?.();
+  }, [onShowTimeline]);
+
+  useAnnounceOnChange(
+    zone,
+    zone ? t('gauge.a11yZoneChanged', { metric: label, zone: t(`zone.${zone}` as const) }) : null
+  );
 
   return (
-    <View style={styles.card} testID={testID}>
-      <View style={styles.header}>
-        <Text style={styles.label}>{range.label}</Text>
-        <View style={styles.valueContainer}>
-          <Text style={[styles.value, { color: valueColor }]}>
-            {displayValue}
-          </Text>
-          {range.unit.length > 0 && (
-            <Text style={styles.unit}>{range.unit}</Text>
-          )}
-        </View>
+    <View
+      style={[styles.card, compact && styles.cardCompact]}
+      testID={testID}
+      accessible
+      accessibilityLabel={summary}
+      accessibilityActions={
+        onShowTimeline ? [{ name: 'showTimeline', label: timelineLabel }] : undefined
+      }
+      onAccessibilityAction={onShowTimeline ? handleAccessibilityAction : undefined}
+    >
+      <View style={[styles.header, compact && styles.headerCompact]}>
+        <Text style={[styles.label, compact && styles.labelCompact]}>{label}</Text>
+        {formattedValue !== null && zone ? (
+          <View style={styles.valueContainer}>
+            {showZoneCues && (
+              <Text
+                style={[
+                  styles.zoneIcon,
+                  compact && styles.zoneIconCompact,
+                  { color: getValueColor(zone, colors) },
+                ]}
+              >
+                {ZONE_CUES[zone].icon}
+              </Text>
+            )}
+            <Text
+              style={[
+                styles.value,
+                compact && styles.valueCompact,
+                { color: getValueColor(zone, colors) },
+              ]}
+            >
+              {formattedValue}
+            </Text>
+            {range.unit.length > 0 && (
+              <Text style={[styles.unit, compact && styles.unitCompact]}>{range.unit}</Text>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.notMeasured}>{t('gauge.notMeasured')}</Text>
+        )}
       </View>
 
+      {scaleNote && (
+        <Text style={styles.scaleNote}>
+          {scalePosition === 'above' ? '▲' : '▼'} {scaleNote}
+        </Text>
+      )}
+
       <View style={styles.gaugeContainer}>
         <Gauge
-          value={value}
+          value={displayValue}
           min={range.min}
           max={range.max}
           zones={range.zones}
+          variant={variant}
+          ticks={ticks}
+          showZoneLabels
+          scaleType={range.scaleType}
+          size={compact ? COMPACT_GAUGE_SIZE : undefined}
         />
       </View>
 
-      <View style={styles.rangeLabels}>
-        <Text style={styles.rangeLabel}>{range.min}</Text>
-        <Text style={styles.rangeLabel}>{range.max}</Text>
-      </View>
+      {onShowTimeline && (
+        <Pressable
+          onPress={onShowTimeline}
+          accessibilityRole="link"
+          accessibilityLabel={timelineLabel}
+        >
+          <Text style={styles.timelineLink}>{t('timeline.link')}</Text>
+        </Pressable>
+      )}
     </View>
   );
 };
@@ -75,16 +209,36 @@ export const GaugeCard: React.FC<GaugeCardProps> = ({
 /**
  * Maps zone type to appropriate display color for the value.
  */
-const getValueColor = (zone: ZoneType): string => {
+const getValueColor = (zone: ZoneType, colors: ThemeColors): string => {
   switch (zone) {
     case 'green':
-      return ZONE_COLORS.green;
+      return colors.zone.green;
     case 'yellow':
-      return ZONE_COLORS.yellow;
+      return colors.zone.yellow;
     case 'red':
-      return ZONE_COLORS.red;
+      return colors.zone.red;
+    default:
+      return colors.text.primary;
+  }
+};
+
+/**
+ * Describes a value lying outside the reference scale, or returns null
+ * when it lies within.
+ */
+const getScaleNote = (
+  position: ScalePosition,
+  range: MetricRange,
+  t: I18nState['t'],
+  locale: I18nState['locale']
+): string | null => {
+  switch (position) {
+    case 'above':
+      return t('gauge.aboveScale', { max: localizeNumber(range.max, locale) });
+    case 'below':
+      return t('gauge.belowScale', { min: localizeNumber(range.min, locale) });
     default:
-      return TEXT_COLORS.primary;
+      return null;
   }
 };
 
@@ -98,64 +252,102 @@ const getDecimalPlaces = (unit: string): number => {
   return 0;
 };
 
-const styles = StyleSheet.create({
-  card: {
-    backgroundColor: SURFACE_COLORS.card,
-    borderRadius: 12,
-    padding: 20,
-    marginBottom: 16,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.08,
-    shadowRadius: 4,
-    elevation: 3,
-    borderWidth: 1,
-    borderColor: SURFACE_COLORS.border,
-  },
-  header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  label: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: TEXT_COLORS.primary,
-    flex: 1,
-    letterSpacing: 0.15,
-  },
-  valueContainer: {
-    flexDirection: 'row',
-    alignItems: 'baseline',
-  },
-  value: {
-    fontSize: 32,
-    fontWeight: '700',
-    letterSpacing: -0.5,
-  },
-  unit: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: TEXT_COLORS.secondary,
-    marginLeft: 6,
-  },
-  gaugeContainer: {
-    alignItems: 'center',
-    marginVertical: 4,
-    marginHorizontal: -10,
-  },
-  rangeLabels: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    paddingHorizontal: 30,
-    marginTop: 4,
-  },
-  rangeLabel: {
-    fontSize: 13,
-    fontWeight: '500',
-    color: TEXT_COLORS.tertiary,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 20,
+      marginBottom: 16,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.08,
+      shadowRadius: 4,
+      elevation: 3,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    cardCompact: {
+      padding: 12,
+      marginBottom: 12,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    headerCompact: {
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      flex: 1,
+      letterSpacing: 0.15,
+    },
+    labelCompact: {
+      fontSize: 14,
+      letterSpacing: 0,
+    },
+    valueContainer: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+    },
+    zoneIcon: {
+      fontSize: 24,
+      fontWeight: '700',
+      marginRight: 6,
+    },
+    zoneIconCompact: {
+      fontSize: 16,
+      marginRight: 4,
+    },
+    value: {
+      fontSize: 32,
+      fontWeight: '700',
+      letterSpacing: -0.5,
+    },
+    valueCompact: {
+      fontSize: 22,
+    },
+    scaleNote: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text.secondary,
+      textAlign: 'right',
+      marginTop: -8,
+      marginBottom: 8,
+    },
+    timelineLink: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      textAlign: 'right',
+      marginTop: 4,
+    },
+    notMeasured: {
+      fontSize: 16,
+      fontWeight: '500',
+      fontStyle: 'italic',
+      color: colors.text.tertiary,
+    },
+    unit: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginLeft: 6,
+    },
+    unitCompact: {
+      fontSize: 12,
+      marginLeft: 4,
+    },
+    gaugeContainer: {
+      alignItems: 'center',
+      marginVertical: 4,
+      marginHorizontal: -10,
+    },
+  });
 
 export default GaugeCard;
@@ -0,0 +1,289 @@
+/**
+ * SVG markings shared by the gauge variants.
+ * Drawn on top of the zone arcs: hatching for the color-safe zone
+ * encoding, the arrow flagging values beyond the scale, tick marks
+ * with zone boundary labels inside the arc, and value markers outside it.
+ */
+
+import React from 'react';
+import { G, Line, Path, Text as SvgText } from 'react-native-svg';
+import { GaugeTickOptions, ScalePosition, ZoneBoundary } from '../types/metrics';
+import { HATCH_OPACITY, ZONE_CUES } from '../constants/zoneCues';
+import { useI18n } from '../hooks/useI18n';
+import { localizeNumber } from '../utils/i18n';
+import {
+  describeArc,
+  getTickValues,
+  polarToCartesian,
+  spreadLabelPositions,
+} from '../utils/gaugeMath';
+
+/** Length of the out-of-scale arrow below the arc */
+export const SCALE_MARKER_HEIGHT = 10;
+
+/** Half the width of the out-of-scale arrow */
+const SCALE_MARKER_HALF_WIDTH = 7;
+
+/** Length of a value marker pointing at the arc from outside */
+const VALUE_MARKER_LENGTH = 9;
+
+/** Half the angle a value marker spans, in degrees at the arc's outer edge */
+const VALUE_MARKER_HALF_WIDTH = 5;
+
+/** Ticks GaugeCard draws unless told otherwise */
+export const DEFAULT_GAUGE_TICKS: GaugeTickOptions = { minorDivisions: 4 };
+
+/** Length of major and boundary ticks */
+const MAJOR_TICK_LENGTH = 6;
+
+/** Length of minor ticks */
+const MINOR_TICK_LENGTH = 3;
+
+/** Font size of zone boundary labels */
+const LABEL_FONT_SIZE = 10;
+
+/** Space kept between neighbouring labels */
+const LABEL_PADDING = 4;
+
+/** Approximate glyph width relative to the font size, for collision checks */
+const GLYPH_WIDTH_RATIO = 0.6;
+
+interface ZoneHatchingProps {
+  readonly zones: readonly ZoneBoundary[];
+  /** Arc angles of each zone, in the same order as zones */
+  readonly angles: readonly { startAngle: number; endAngle: number }[];
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number;
+  readonly arcWidth: number;
+  readonly stripeColor: string;
+}
+
+/**
+ * Stripes drawn over the zone arcs so zones can be told apart without color.
+ */
+export const ZoneHatching: React.FC<ZoneHatchingProps> = ({
+  zones,
+  angles,
+  centerX,
+  centerY,
+  radius,
+  arcWidth,
+  stripeColor,
+}) => (
+  <G>
+    {zones.map((zone, index) => {
+      const { hatch } = ZONE_CUES[zone.type];
+      if (!hatch) return null;
+      return (
+        <Path
+          key={`${zone.type}-${zone.start}`}
+          d={describeArc(centerX, centerY, radius, angles[index].startAngle, angles[index].endAngle)}
+          fill="none"
+          stroke={stripeColor}
+          strokeOpacity={HATCH_OPACITY}
+          strokeWidth={arcWidth}
+          strokeDasharray={hatch}
+        />
+      );
+    })}
+  </G>
+);
+
+interface ScaleMarkerProps {
+  readonly position: Exclude<ScalePosition, 'within'>;
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number;
+  readonly arcWidth: number;
+  readonly color: string;
+}
+
+/**
+ * Arrow continuing the arc past the end the value lies beyond:
+ * below the left end for underflow, below the right end for overflow.
+ */
+export const ScaleMarker: React.FC<ScaleMarkerProps> = ({
+  position,
+  centerX,
+  centerY,
+  radius,
+  arcWidth,
+  color,
+}) => {
+  const x = position === 'above' ? centerX + radius : centerX - radius;
+  const top = centerY + arcWidth / 2;
+  const tip = top + SCALE_MARKER_HEIGHT;
+
+  return (
+    <Path
+      d={`M ${x - SCALE_MARKER_HALF_WIDTH} ${top} L ${x + SCALE_MARKER_HALF_WIDTH} ${top} L ${x} ${tip} Z`}
+      fill={color}
+    />
+  );
+};
+
+interface ValueMarkerProps {
+  /** Angle of the marked value, e.g. from valueToAngle */
+  readonly angle: number;
+  readonly isHollow?: boolean;
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number;
+  readonly arcWidth: number;
+  readonly color: string;
+}
+
+/**
+ * Triangle outside the arc pointing at a value. Hollow markers outline
+ * an earlier reading so it stays apart from a filled current one.
+ */
+export const ValueMarker: React.FC<ValueMarkerProps> = ({
+  angle,
+  isHollow = false,
+  centerX,
+  centerY,
+  radius,
+  arcWidth,
+  color,
+}) => {
+  const tipRadius = radius + arcWidth / 2 + 1;
+  const baseRadius = tipRadius + VALUE_MARKER_LENGTH;
+  const halfAngle = (VALUE_MARKER_HALF_WIDTH / baseRadius) * (180 / Math.PI);
+  const tip = polarToCartesian(centerX, centerY, tipRadius, angle);
+  const left = polarToCartesian(centerX, centerY, baseRadius, angle + halfAngle);
+  const right = polarToCartesian(centerX, centerY, baseRadius, angle - halfAngle);
+
+  return (
+    <Path
+      d={`M ${tip.x} ${tip.y} L ${left.x} ${left.y} L ${right.x} ${right.y} Z`}
+      fill={isHollow ? 'none' : color}
+      stroke={color}
+      strokeWidth={1.5}
+      strokeLinejoin="round"
+    />
+  );
+};
+
+interface GaugeScaleProps {
+  readonly min: number;
+  readonly max: number;
+  readonly zones: readonly ZoneBoundary[];
+  /** Maps a value to its angle on the arc */
+  readonly toAngle: (value: number) => number;
+  /** Tick marks to draw; none when omitted */
+  readonly ticks?: GaugeTickOptions;
+  /** Whether every zone start and end is labelled */
+  readonly showZoneLabels?: boolean;
+  readonly centerX: number;
+  readonly centerY: number;
+  readonly radius: number;
+  readonly arcWidth: number;
+  readonly color: string;
+}
+
+/**
+ * Tick marks along the inner edge of the arc and zone boundary labels
+ * inside them. Labels too close to fit, such as the 0 and 3 of a
+ * 0–3% zone, are spread apart and joined to their tick by a leader line.
+ */
+export const GaugeScale: React.FC<GaugeScaleProps> = ({
+  min,
+  max,
+  zones,
+  toAngle,
+  ticks,
+  showZoneLabels = false,
+  centerX,
+  centerY,
+  radius,
+  arcWidth,
+  color,
+}) => {
+  const { locale } = useI18n();
+  const tickOuter = radius - arcWidth / 2 - 1;
+  const labelRadius = tickOuter - MAJOR_TICK_LENGTH - LABEL_FONT_SIZE;
+  const tickValues = ticks ? getTickValues(min, max, ticks) : { major: [], minor: [] };
+
+  const boundaries = showZoneLabels
+    ? [...new Set(zones.flatMap((zone) => [zone.start, zone.end]))].sort((a, b) => a - b)
+    : [];
+  const labels = boundaries.map((value) => localizeNumber(value, locale));
+  const longestLabel = Math.max(0, ...labels.map((label) => label.length));
+  const widestLabel = longestLabel * LABEL_FONT_SIZE * GLYPH_WIDTH_RATIO;
+  const minGapDeg = ((widestLabel + LABEL_PADDING) / labelRadius) * (180 / Math.PI);
+  // Positions run from the left end (0) to the right end (180)
+  const positions = spreadLabelPositions(
+    boundaries.map((value) => 180 - toAngle(value)),
+    minGapDeg,
+    0,
+    180
+  );
+
+  const renderTick = (value: number, length: number, key: string) => {
+    const angle = toAngle(value);
+    const outer = polarToCartesian(centerX, centerY, tickOuter, angle);
+    const inner = polarToCartesian(centerX, centerY, tickOuter - length, angle);
+    return (
+      <Line
+        key={key}
+        x1={outer.x}
+        y1={outer.y}
+        x2={inner.x}
+        y2={inner.y}
+        stroke={color}
+        strokeWidth={1}
+      />
+    );
+  };
+
+  return (
+    <G>
+      {tickValues.minor.map((value) => renderTick(value, MINOR_TICK_LENGTH, `minor-${value}`))}
+      {tickValues.major.map((value) => renderTick(value, MAJOR_TICK_LENGTH, `major-${value}`))}
+      {boundaries.map((value, index) => {
+        const tickAngle = toAngle(value);
+        const labelAngle = 180 - positions[index];
+        const anchor = polarToCartesian(centerX, centerY, labelRadius, labelAngle);
+        const isDisplaced = Math.abs(labelAngle - tickAngle) > 0.5;
+        const leaderStart = polarToCartesian(
+          centerX,
+          centerY,
+          tickOuter - MAJOR_TICK_LENGTH,
+          tickAngle
+        );
+        const leaderEnd = polarToCartesian(
+          centerX,
+          centerY,
+          labelRadius + LABEL_FONT_SIZE / 2,
+          labelAngle
+        );
+
+        return (
+          <G key={`boundary-${value}`}>
+            {renderTick(value, MAJOR_TICK_LENGTH, `boundary-tick-${value}`)}
+            {isDisplaced && (
+              <Line
+                x1={leaderStart.x}
+                y1={leaderStart.y}
+                x2={leaderEnd.x}
+                y2={leaderEnd.y}
+                stroke={color}
+                strokeWidth={0.5}
+              />
+            )}
+            <SvgText
+              x={anchor.x}
+              y={anchor.y + LABEL_FONT_SIZE * 0.35}
+              fontSize={LABEL_FONT_SIZE}
+              fill={color}
+              textAnchor="middle"
+            >
+              {labels[index]}
+            </SvgText>
+          </G>
+        );
+      })}
+    </G>
+  );
+};
@@ -0,0 +1,137 @@
+/**
+ * Form fields describing a graft: conduit, target vessel,
+ * reference profile and an optional custom name. Given earlier grafts,
+ * it also offers to mark the graft as a revision of one of them.
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { CONDUIT_TYPES, GraftAssessment, TARGET_VESSELS } from '../types/metrics';
+import { getDefaultGraftName } from '../constants/grafts';
+import { useReferenceProfiles } from '../context/ReferenceProfileContext';
+import { ThemeColors } from '../constants/colors';
+import { GraftDetailsState } from '../hooks/useGraftDetails';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { getProfileLabel } from '../utils/i18n';
+import ChipSelector from './ChipSelector';
+
+const CONDUIT_OPTIONS = CONDUIT_TYPES.map((conduit) => ({ value: conduit, label: conduit }));
+const TARGET_OPTIONS = TARGET_VESSELS.map((target) => ({ value: target, label: target }));
+
+/** Revision option meaning the graft is a first assessment */
+const NO_REVISION = '';
+
+interface GraftDetailsFieldsProps {
+  /** State returned by useGraftDetails */
+  readonly details: GraftDetailsState;
+  /** Earlier assessments the graft may be a revision of; none hides the choice */
+  readonly revisionCandidates?: readonly GraftAssessment[];
+}
+
+/**
+ * GraftDetailsFields renders chip selectors and the name input
+ * bound to a useGraftDetails state object.
+ */
+export const GraftDetailsFields: React.FC<GraftDetailsFieldsProps> = ({
+  details,
+  revisionCandidates = [],
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { profiles } = useReferenceProfiles();
+  const { locale, t } = useI18n();
+  const profileOptions = profiles.map((profile) => ({
+    value: profile.id,
+    label: getProfileLabel(profile, locale),
+  }));
+  const revisionOptions = [
+    { value: NO_REVISION, label: t('graft.revisionNone') },
+    ...revisionCandidates.map((graft) => ({ value: graft.id, label: graft.name })),
+  ];
+  const { linkRevision } = details;
+
+  /**
+   * Links the chosen earlier assessment, or removes the link.
+   */
+  const handleSelectRevision = useCallback(
+    (graftId: string) => {
+      linkRevision(revisionCandidates.find((graft) => graft.id === graftId) ?? null);
+    },
+    [linkRevision, revisionCandidates]
+  );
+
+  return (
+    <View style={styles.container}>
+      {revisionCandidates.length > 0 && (
+        <ChipSelector
+          label={t('graft.revisionOf')}
+          options={revisionOptions}
+          selected={details.revisionOf ?? NO_REVISION}
+          onSelect={handleSelectRevision}
+          testID="select-revision"
+        />
+      )}
+      <ChipSelector
+        label={t('graft.conduit')}
+        options={CONDUIT_OPTIONS}
+        selected={details.conduit}
+        onSelect={details.setConduit}
+        testID="select-conduit"
+      />
+      <ChipSelector
+        label={t('graft.target')}
+        options={TARGET_OPTIONS}
+        selected={details.target}
+        onSelect={details.setTarget}
+        testID="select-target"
+      />
+      <ChipSelector
+        label={t('graft.profile')}
+        options={profileOptions}
+        selected={details.profileId}
+        onSelect={details.setProfileId}
+        testID="select-profile"
+      />
+      <Text style={styles.label}>{t('graft.name')}</Text>
+      <TextInput
+        style={styles.input}
+        value={details.name}
+        onChangeText={details.setName}
+        placeholder={getDefaultGraftName(details.conduit, details.target)}
+        placeholderTextColor={colors.text.tertiary}
+        returnKeyType="done"
+        testID="input-graft-name"
+        accessibilityLabel={t('graft.nameA11y')}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    input: {
+      height: 48,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      fontSize: 18,
+      fontWeight: '500',
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+      marginBottom: 16,
+    },
+  });
+
+export default GraftDetailsFields;
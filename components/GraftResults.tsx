@@ -0,0 +1,112 @@
+/**
+ * Group of GaugeCards for a single graft assessment.
+ * Shows the graft name and route, the flow waveform when one was
+ * recorded, and one card per metric. Cards stack in one column or, on
+ * the dashboard, wrap into a grid. Grafts with phase readings link each
+ * card to the metric's timeline.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { GraftAssessment, MetricKey, METRIC_KEYS } from '../types/metrics';
+import { getReferenceProfile } from '../constants/referenceRanges';
+import { ThemeColors } from '../constants/colors';
+import { DASHBOARD_GUTTER } from '../constants/layout';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import { getConduitLabel, getProfileLabel, getTargetVesselLabel } from '../utils/i18n';
+import GaugeCard from './GaugeCard';
+import FlowWaveform from './FlowWaveform';
+
+interface GraftResultsProps {
+  /** Graft whose metrics are displayed */
+  readonly graft: GraftAssessment;
+  /** Cards per row; defaults to a single column */
+  readonly columns?: number;
+  /** Whether cards use the compact variant */
+  readonly compact?: boolean;
+  /** Opens a metric's timeline for this graft */
+  readonly onShowTimeline?: (key: MetricKey) => void;
+}
+
+/**
+ * GraftResults renders a section header followed by the graft's gauges.
+ */
+export const GraftResults: React.FC<GraftResultsProps> = ({
+  graft,
+  columns = 1,
+  compact = false,
+  onShowTimeline,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = useI18n();
+  const hasTimeline = (graft.timeline?.length ?? 0) > 0;
+
+  return (
+    <View style={styles.section} testID={`graft-results-${graft.id}`}>
+      <View style={styles.header}>
+        <Text style={styles.name}>{graft.name}</Text>
+        <Text style={styles.route}>
+          {getConduitLabel(graft.conduit, locale)} → {getTargetVesselLabel(graft.target, locale)}
+        </Text>
+        <Text style={styles.route}>
+          {t('results.referenceProfile', {
+            profile: getProfileLabel(getReferenceProfile(graft.profileId), locale),
+          })}
+        </Text>
+      </View>
+
+      {graft.waveform && graft.waveform.samples.length >= 2 && (
+        <FlowWaveform waveform={graft.waveform} testID={`flow-waveform-${graft.id}`} />
+      )}
+
+      <View style={columns > 1 && styles.grid}>
+        {METRIC_KEYS.map((key) => (
+          <View key={key} style={columns > 1 && [styles.cell, { width: `${100 / columns}%` }]}>
+            <GaugeCard
+              metricKey={key}
+              value={graft.values[key]}
+              profileId={graft.profileId}
+              compact={compact}
+              onShowTimeline={
+                hasTimeline && onShowTimeline ? () => onShowTimeline(key) : undefined
+              }
+              testID={`gauge-card-${graft.id}-${key}`}
+            />
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    section: {
+      marginBottom: 24,
+    },
+    header: {
+      marginBottom: 12,
+    },
+    name: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text.primary,
+      letterSpacing: -0.25,
+    },
+    route: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      marginTop: 2,
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginHorizontal: -DASHBOARD_GUTTER / 2,
+    },
+    cell: {
+      paddingHorizontal: DASHBOARD_GUTTER / 2,
+    },
+  });
+
+export default GraftResults;
@@ -0,0 +1,234 @@
+/**
+ * Chart of one metric across the surgical phases, drawn with
+ * react-native-svg. Readings sit on horizontal bands in the colors of
+ * the metric's zones, so a drift into another zone shows at a glance.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { MetricRange } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { getZoneForRange } from '../constants/referenceRanges';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { extendRangeToFit, formatDisplayValue, valueToPercentage } from '../utils/gaugeMath';
+import { isMeasured } from '../utils/metricValues';
+import { TimelinePoint } from '../utils/timeline';
+
+interface MetricTimelineProps {
+  /** Readings in phase order, in the unit of the range */
+  readonly points: readonly TimelinePoint[];
+  /** Display range whose zones are drawn as bands */
+  readonly range: MetricRange;
+  /** Metric name read out by screen readers */
+  readonly label: string;
+  /** Decimal places values are shown with */
+  readonly decimals: number;
+  /** Chart height in points; width follows the container */
+  readonly height?: number;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/** Space reserved around the plot area for axis labels */
+const PADDING = { top: 12, right: 12, bottom: 12, left: 40 } as const;
+
+/** Opacity of the zone bands behind the readings */
+const BAND_OPACITY = 0.18;
+
+/** Radius of a reading's dot */
+const POINT_RADIUS = 5;
+
+/**
+ * MetricTimeline places one column per phase, with the reading as a dot
+ * colored by its zone. Lines join neighbouring readings and break where a
+ * phase was not measured. The scale grows to fit readings beyond it and
+ * follows the range's scale type.
+ */
+export const MetricTimeline: React.FC<MetricTimelineProps> = ({
+  points,
+  range,
+  label,
+  decimals,
+  height = 200,
+  testID,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = useI18n();
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const chart = useMemo(() => {
+    if (width === 0 || points.length === 0) return null;
+
+    const scale = points
+      .map((point) => point.value)
+      .filter(isMeasured)
+      .reduce((fitted, value) => extendRangeToFit(fitted, value), range);
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const columnWidth = plotWidth / points.length;
+
+    const toX = (index: number) => PADDING.left + (index + 0.5) * columnWidth;
+    const toY = (value: number) =>
+      PADDING.top +
+      (1 - valueToPercentage(value, scale.min, scale.max, scale.scaleType, scale.zones)) *
+        plotHeight;
+
+    // Start a new subpath after every unmeasured phase
+    let isDrawing = false;
+    const linePath = points
+      .map((point, index) => {
+        if (!isMeasured(point.value)) {
+          isDrawing = false;
+          return '';
+        }
+        const command = isDrawing ? 'L' : 'M';
+        isDrawing = true;
+        return `${command} ${toX(index)} ${toY(point.value)}`;
+      })
+      .join(' ');
+
+    return { scale, plotWidth, plotHeight, linePath, toX, toY };
+  }, [points, range, width, height]);
+
+  const summary = t('timeline.a11yChart', {
+    metric: label,
+    points: points
+      .map((point) =>
+        t('timeline.a11yPoint', {
+          phase: t(`phase.${point.phase}` as const),
+          value: isMeasured(point.value)
+            ? formatDisplayValue(point.value, decimals, locale)
+            : t('gauge.notMeasured'),
+        })
+      )
+      .join(', '),
+  });
+
+  return (
+    <View style={styles.container} testID={testID} accessible accessibilityLabel={summary}>
+      <View style={{ height }} onLayout={handleLayout}>
+        {chart && (
+          <Svg width={width} height={height}>
+            <G>
+              {chart.scale.zones.map((zone) => (
+                <Rect
+                  key={`${zone.type}-${zone.start}`}
+                  x={PADDING.left}
+                  y={chart.toY(zone.end)}
+                  width={chart.plotWidth}
+                  height={chart.toY(zone.start) - chart.toY(zone.end)}
+                  fill={colors.zone[zone.type]}
+                  fillOpacity={BAND_OPACITY}
+                />
+              ))}
+            </G>
+
+            <Rect
+              x={PADDING.left}
+              y={PADDING.top}
+              width={chart.plotWidth}
+              height={chart.plotHeight}
+              fill="none"
+              stroke={colors.chart.grid}
+            />
+
+            {chart.scale.zones.slice(1).map((zone) => (
+              <SvgText
+                key={zone.start}
+                x={PADDING.left - 6}
+                y={chart.toY(zone.start) + 4}
+                fontSize={11}
+                fill={colors.text.tertiary}
+                textAnchor="end"
+              >
+                {formatDisplayValue(zone.start, decimals, locale)}
+              </SvgText>
+            ))}
+
+            <Path d={chart.linePath} fill="none" stroke={colors.text.secondary} strokeWidth={2} />
+
+            {points.map((point, index) =>
+              isMeasured(point.value) ? (
+                <Circle
+                  key={point.phase}
+                  cx={chart.toX(index)}
+                  cy={chart.toY(point.value)}
+                  r={POINT_RADIUS}
+                  fill={colors.zone[getZoneForRange(chart.scale, point.value)]}
+                  stroke={colors.surface.card}
+                  strokeWidth={2}
+                />
+              ) : (
+                <Line
+                  key={point.phase}
+                  x1={chart.toX(index)}
+                  y1={PADDING.top}
+                  x2={chart.toX(index)}
+                  y2={PADDING.top + chart.plotHeight}
+                  stroke={colors.notMeasured}
+                  strokeDasharray="4 3"
+                />
+              )
+            )}
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.phaseLabels}>
+        {points.map((point) => (
+          <View key={point.phase} style={styles.phaseColumn}>
+            <Text style={styles.phaseLabel}>{t(`phase.${point.phase}` as const)}</Text>
+            <Text style={styles.phaseValue}>
+              {isMeasured(point.value)
+                ? formatDisplayValue(point.value, decimals, locale)
+                : t('gauge.notMeasured')}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    phaseLabels: {
+      flexDirection: 'row',
+      paddingLeft: PADDING.left,
+      paddingRight: PADDING.right,
+      marginTop: 4,
+    },
+    phaseColumn: {
+      flex: 1,
+      alignItems: 'center',
+      paddingHorizontal: 2,
+    },
+    phaseLabel: {
+      fontSize: 12,
+      color: colors.text.secondary,
+      textAlign: 'center',
+    },
+    phaseValue: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginTop: 2,
+    },
+  });
+
+export default MetricTimeline;
@@ -0,0 +1,229 @@
+/**
+ * Needle-style gauge drawn with react-native-svg from the gaugeMath
+ * utilities. Zone arcs span their share of the scale and a needle
+ * sweeps from its previous reading to the current value, both following
+ * the scale type. Tick marks, zone boundary labels and value markers
+ * are optional.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, Easing, View, StyleSheet } from 'react-native';
+import Svg, { Circle, Line, Path } from 'react-native-svg';
+import {
+  GaugeMarker,
+  GaugeTickOptions,
+  MetricValue,
+  ScaleType,
+  ZoneBoundary,
+} from '../types/metrics';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useTheme } from '../hooks/useTheme';
+import {
+  calculateNeedlePosition,
+  clampValue,
+  describeArc,
+  describeFullArc,
+  getScalePosition,
+  valueToAngle,
+  zoneToArcAngles,
+} from '../utils/gaugeMath';
+import { GaugeScale, ScaleMarker, ValueMarker, ZoneHatching } from './GaugeMarkings';
+
+interface NeedleGaugeProps {
+  /** Value the needle points to; null hides the needle and greys the arcs */
+  readonly value: MetricValue;
+  readonly min: number;
+  readonly max: number;
+  readonly zones: readonly ZoneBoundary[];
+  readonly size?: number;
+  /** Screen reader description; without one the gauge is decorative */
+  readonly accessibilityLabel?: string;
+  /** Tick marks to draw; none when omitted */
+  readonly ticks?: GaugeTickOptions;
+  /** Whether every zone start and end is labelled */
+  readonly showZoneLabels?: boolean;
+  /** How values map onto the arc; linear when omitted */
+  readonly scaleType?: ScaleType;
+  /** Values pointed out outside the arc, e.g. readings before and after revision */
+  readonly markers?: readonly GaugeMarker[];
+}
+
+/** Stroke width of the zone arcs */
+const ARC_WIDTH = 16;
+
+/** Gap left between the arc's inner edge and the needle tip */
+const NEEDLE_CLEARANCE = 4;
+
+/** Stroke width of the needle */
+const NEEDLE_WIDTH = 3;
+
+/** Radius of the needle pivot */
+const PIVOT_RADIUS = 7;
+
+/**
+ * NeedleGauge animates the needle on every value change unless the OS
+ * reduced-motion setting is on.
+ */
+export const NeedleGauge: React.FC<NeedleGaugeProps> = ({
+  value,
+  min,
+  max,
+  zones,
+  size = 200,
+  accessibilityLabel,
+  ticks,
+  showZoneLabels = false,
+  scaleType = 'linear',
+  markers = [],
+}) => {
+  const { colors, showZoneCues } = useTheme();
+  const isReducedMotion = useReducedMotion();
+  const isMeasured = value !== null;
+  const width = size;
+  const height = size * 0.7;
+  const radius = size * 0.35;
+  const centerX = width / 2;
+  // Centres the arc and the markers below it vertically
+  const centerY = (height + radius) / 2;
+  const needleLength = radius - ARC_WIDTH / 2 - NEEDLE_CLEARANCE;
+  const scalePosition = isMeasured ? getScalePosition(value, min, max) : 'within';
+  const target = isMeasured ? clampValue(value, min, max) : min;
+
+  const sweep = useRef(new Animated.Value(target)).current;
+  const [needleValue, setNeedleValue] = useState(target);
+
+  useEffect(() => {
+    const listener = sweep.addListener((state) => setNeedleValue(state.value));
+    return () => sweep.removeListener(listener);
+  }, [sweep]);
+
+  useEffect(() => {
+    if (isReducedMotion) {
+      sweep.setValue(target);
+      return;
+    }
+    const animation = Animated.timing(sweep, {
+      toValue: target,
+      duration: 1000,
+      delay: 100,
+      easing: Easing.out(Easing.ease),
+      useNativeDriver: false,
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [sweep, target, isReducedMotion]);
+
+  const toAngle = (point: number) => valueToAngle(point, min, max, scaleType, zones);
+  const angles = zones.map((zone) =>
+    zoneToArcAngles(zone.start, zone.end, min, max, scaleType, zones)
+  );
+  const needle = calculateNeedlePosition(
+    needleValue,
+    min,
+    max,
+    centerX,
+    centerY,
+    needleLength,
+    scaleType,
+    zones
+  );
+
+  return (
+    <View
+      style={[styles.container, { width, height }]}
+      accessible={accessibilityLabel !== undefined}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <Svg width={width} height={height}>
+        <Path
+          d={describeFullArc(centerX, centerY, radius)}
+          fill="none"
+          stroke={colors.surface.gaugeBackground}
+          strokeWidth={ARC_WIDTH}
+        />
+        {zones.map((zone, index) => (
+          <Path
+            key={`${zone.type}-${zone.start}`}
+            d={describeArc(centerX, centerY, radius, angles[index].startAngle, angles[index].endAngle)}
+            fill="none"
+            stroke={isMeasured ? colors.zone[zone.type] : colors.notMeasured}
+            strokeWidth={ARC_WIDTH}
+          />
+        ))}
+        {isMeasured && showZoneCues && (
+          <ZoneHatching
+            zones={zones}
+            angles={angles}
+            centerX={centerX}
+            centerY={centerY}
+            radius={radius}
+            arcWidth={ARC_WIDTH}
+            stripeColor={colors.surface.card}
+          />
+        )}
+        <GaugeScale
+          min={min}
+          max={max}
+          zones={zones}
+          toAngle={toAngle}
+          ticks={ticks}
+          showZoneLabels={showZoneLabels}
+          centerX={centerX}
+          centerY={centerY}
+          radius={radius}
+          arcWidth={ARC_WIDTH}
+          color={colors.text.secondary}
+        />
+        {scalePosition !== 'within' && (
+          <ScaleMarker
+            position={scalePosition}
+            centerX={centerX}
+            centerY={centerY}
+            radius={radius}
+            arcWidth={ARC_WIDTH}
+            color={colors.text.primary}
+          />
+        )}
+        {markers.map((marker) => (
+          <ValueMarker
+            key={`${marker.value}-${marker.isHollow ? 'hollow' : 'filled'}`}
+            angle={toAngle(marker.value)}
+            isHollow={marker.isHollow}
+            centerX={centerX}
+            centerY={centerY}
+            radius={radius}
+            arcWidth={ARC_WIDTH}
+            color={colors.text.primary}
+          />
+        ))}
+        {isMeasured && (
+          <Line
+            x1={centerX}
+            y1={centerY}
+            x2={needle.tipX}
+            y2={needle.tipY}
+            stroke={colors.ui.needle}
+            strokeWidth={NEEDLE_WIDTH}
+            strokeLinecap="round"
+          />
+        )}
+        <Circle
+          cx={centerX}
+          cy={centerY}
+          r={PIVOT_RADIUS}
+          fill={isMeasured ? colors.ui.needleCenter : colors.notMeasured}
+        />
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default NeedleGauge;
@@ -1,11 +1,16 @@
 /**
  * Controlled numeric input component for metric value entry.
- * Handles string-to-number conversion and provides appropriate keyboard.
+ * Handles string-to-number conversion, provides appropriate keyboard
+ * and shows validation errors and warnings inline. Text is kept as
+ * typed, so callers parse it with the active language's decimal mark.
  */
 
 import React from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
-import { TEXT_COLORS, UI_COLORS, SURFACE_COLORS } from '../constants/colors';
+import { ThemeColors } from '../constants/colors';
+import { ValidationIssue } from '../utils/metricValidation';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
 
 interface NumericInputProps {
   /** Display label for the input */
@@ -18,6 +23,8 @@ interface NumericInputProps {
   readonly onChangeText: (text: string) => void;
   /** Placeholder text when empty */
   readonly placeholder?: string;
+  /** Validation findings shown under the input */
+  readonly issues?: readonly ValidationIssue[];
   /** Test ID for testing purposes */
   readonly testID?: string;
 }
@@ -33,64 +40,109 @@ export const NumericInput: React.FC<NumericInputProps> = ({
   value,
   onChangeText,
   placeholder = '0',
+  issues = [],
   testID,
 }) => {
+  const { t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const hasError = issues.some((issue) => issue.severity === 'error');
+  const hasWarning = issues.length > 0 && !hasError;
+
   return (
     <View style={styles.container}>
       <Text style={styles.label}>{label}</Text>
       <View style={styles.inputRow}>
         <TextInput
-          style={styles.input}
+          style={[
+            styles.input,
+            hasError && styles.inputError,
+            hasWarning && styles.inputWarning,
+          ]}
           value={value}
           onChangeText={onChangeText}
           placeholder={placeholder}
-          placeholderTextColor={TEXT_COLORS.tertiary}
+          placeholderTextColor={colors.text.tertiary}
           keyboardType="decimal-pad"
           returnKeyType="done"
           testID={testID}
-          accessibilityLabel={`${label} input`}
-          accessibilityHint={`Enter ${label.toLowerCase()} value in ${unit}`}
+          accessibilityLabel={t('numericInput.a11yLabel', { label })}
+          accessibilityHint={
+            unit.length > 0
+              ? t('numericInput.a11yHintUnit', { label, unit })
+              : t('numericInput.a11yHint', { label })
+          }
         />
         {unit.length > 0 && <Text style={styles.unit}>{unit}</Text>}
       </View>
+      {issues.map((issue) => (
+        <Text
+          key={issue.message}
+          style={[
+            styles.issue,
+            issue.severity === 'error' ? styles.issueError : styles.issueWarning,
+          ]}
+          accessibilityLiveRegion="polite"
+          testID={testID ? `${testID}-${issue.severity}` : undefined}
+        >
+          {issue.message}
+        </Text>
+      ))}
     </View>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    marginBottom: 16,
-  },
-  label: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: TEXT_COLORS.secondary,
-    marginBottom: 6,
-    letterSpacing: 0.25,
-  },
-  inputRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  input: {
-    flex: 1,
-    height: 48,
-    borderWidth: 1,
-    borderColor: UI_COLORS.inputBorder,
-    borderRadius: 8,
-    paddingHorizontal: 14,
-    fontSize: 18,
-    fontWeight: '500',
-    color: TEXT_COLORS.primary,
-    backgroundColor: SURFACE_COLORS.card,
-  },
-  unit: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: TEXT_COLORS.secondary,
-    marginLeft: 10,
-    minWidth: 60,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    input: {
+      flex: 1,
+      height: 48,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      fontSize: 18,
+      fontWeight: '500',
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+    },
+    inputError: {
+      borderColor: colors.zone.red,
+    },
+    inputWarning: {
+      borderColor: colors.zone.yellow,
+    },
+    issue: {
+      fontSize: 13,
+      marginTop: 4,
+    },
+    issueError: {
+      color: colors.zone.red,
+    },
+    issueWarning: {
+      color: colors.text.secondary,
+    },
+    unit: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginLeft: 10,
+      minWidth: 60,
+    },
+  });
 
 export default NumericInput;
@@ -0,0 +1,168 @@
+/**
+ * Card summarizing a learner's quiz performance.
+ * Shows the overall and recent score, the current streak and a bar per
+ * scenario, so weak spots stand out.
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { TRAINING_SCENARIOS } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useI18n } from '../hooks/useI18n';
+import { useThemedStyles } from '../hooks/useTheme';
+import { QuizStats, RECENT_ANSWER_COUNT } from '../utils/quiz';
+
+interface QuizProgressProps {
+  /** Performance to summarize */
+  readonly stats: QuizStats;
+  /** Deletes the recorded answers; without it no reset action is shown */
+  readonly onReset?: () => void;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/**
+ * Rounds an accuracy in [0, 1] to a whole percentage.
+ */
+const toPercent = (accuracy: number): number => Math.round(accuracy * 100);
+
+/**
+ * QuizProgress renders a hint instead of scores until the first answer.
+ */
+export const QuizProgress: React.FC<QuizProgressProps> = ({ stats, onReset, testID }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.card} testID={testID}>
+      <Text style={styles.title}>{t('quiz.progress')}</Text>
+
+      {stats.accuracy === null ? (
+        <Text style={styles.detail}>{t('quiz.noAnswers')}</Text>
+      ) : (
+        <>
+          <Text style={styles.score}>
+            {t('quiz.score', {
+              correct: stats.correct,
+              total: stats.total,
+              percent: toPercent(stats.accuracy),
+            })}
+          </Text>
+          {stats.recentAccuracy !== null && stats.total > RECENT_ANSWER_COUNT && (
+            <Text style={styles.detail}>
+              {t('quiz.recent', {
+                count: RECENT_ANSWER_COUNT,
+                percent: toPercent(stats.recentAccuracy),
+              })}
+            </Text>
+          )}
+          <Text style={styles.detail}>{t('quiz.streak', { count: stats.streak })}</Text>
+
+          {TRAINING_SCENARIOS.map((scenario) => {
+            const { correct, total } = stats.byScenario[scenario];
+            const label = t(`scenario.${scenario}` as const);
+            const score = t('quiz.scenarioScore', { correct, total });
+            return (
+              <View
+                key={scenario}
+                style={styles.scenario}
+                accessible
+                accessibilityLabel={`${label}: ${score}`}
+              >
+                <View style={styles.scenarioHeader}>
+                  <Text style={styles.scenarioLabel}>{label}</Text>
+                  <Text style={styles.scenarioScore}>{score}</Text>
+                </View>
+                <View style={styles.track}>
+                  <View
+                    style={[
+                      styles.bar,
+                      { width: `${total === 0 ? 0 : toPercent(correct / total)}%` },
+                    ]}
+                  />
+                </View>
+              </View>
+            );
+          })}
+
+          {onReset && (
+            <Pressable
+              onPress={onReset}
+              accessibilityRole="button"
+              accessibilityLabel={t('quiz.reset')}
+            >
+              <Text style={styles.reset}>{t('quiz.reset')}</Text>
+            </Pressable>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 20,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    title: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.secondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: 4,
+    },
+    score: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text.primary,
+      letterSpacing: -0.25,
+      marginBottom: 4,
+    },
+    detail: {
+      fontSize: 14,
+      color: colors.text.secondary,
+      marginTop: 2,
+    },
+    scenario: {
+      marginTop: 12,
+    },
+    scenarioHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 4,
+    },
+    scenarioLabel: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+    scenarioScore: {
+      fontSize: 14,
+      color: colors.text.secondary,
+    },
+    track: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.surface.border,
+      overflow: 'hidden',
+    },
+    bar: {
+      height: 6,
+      backgroundColor: colors.ui.primaryButton,
+    },
+    reset: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.zone.red,
+      marginTop: 16,
+    },
+  });
+
+export default QuizProgress;
@@ -0,0 +1,132 @@
+/**
+ * Summary card for a surgical session.
+ * Lists every graft with a count of metrics per zone.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { SurgicalSession, ZoneType } from '../types/metrics';
+import { ThemeColors, getZoneColor } from '../constants/colors';
+import { getUnmeasuredMetrics, getWorstZone, getZoneCounts } from '../utils/session';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+
+interface SessionOverviewProps {
+  /** Session to summarize */
+  readonly session: SurgicalSession;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+const ZONE_ORDER: readonly ZoneType[] = ['green', 'yellow', 'red'];
+
+/**
+ * SessionOverview renders one row per graft with its worst zone
+ * and the number of metrics in each zone. Unmeasured metrics are
+ * counted separately and never contribute to a zone.
+ */
+export const SessionOverview: React.FC<SessionOverviewProps> = ({
+  session,
+  testID,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.card} testID={testID}>
+      <Text style={styles.title}>{t('overview.title')}</Text>
+      {session.grafts.map((graft) => {
+        const counts = getZoneCounts(graft);
+        const unmeasuredCount = getUnmeasuredMetrics(graft).length;
+        return (
+          <View key={graft.id} style={styles.row}>
+            <View
+              style={[styles.marker, { backgroundColor: getZoneColor(getWorstZone(graft), colors) }]}
+            />
+            <Text style={styles.graftName}>{graft.name}</Text>
+            <View style={styles.counts}>
+              {ZONE_ORDER.map((zone) => (
+                <View key={zone} style={styles.count}>
+                  <View style={[styles.countDot, { backgroundColor: colors.zone[zone] }]} />
+                  <Text style={styles.countText}>{counts[zone]}</Text>
+                </View>
+              ))}
+              {unmeasuredCount > 0 && (
+                <View
+                  style={styles.count}
+                  accessibilityLabel={t('overview.notMeasured', { count: unmeasuredCount })}
+                >
+                  <View style={[styles.countDot, styles.notMeasuredDot]} />
+                  <Text style={styles.countText}>{unmeasuredCount}</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 20,
+      marginBottom: 24,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 12,
+      letterSpacing: 0.15,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+    },
+    marker: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: 10,
+    },
+    graftName: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '500',
+      color: colors.text.primary,
+    },
+    counts: {
+      flexDirection: 'row',
+    },
+    count: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginLeft: 12,
+    },
+    countDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginRight: 4,
+    },
+    notMeasuredDot: {
+      backgroundColor: colors.surface.card,
+      borderWidth: 1,
+      borderColor: colors.notMeasured,
+    },
+    countText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.secondary,
+    },
+  });
+
+export default SessionOverview;
@@ -0,0 +1,75 @@
+/**
+ * Connection status of the live measurement feed, shown as a colored dot
+ * followed by a short description.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ThemeColors } from '../constants/colors';
+import { useAnnounceOnChange } from '../hooks/useAnnounceOnChange';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { StreamStatus } from '../utils/streamClient';
+
+interface StreamStatusIndicatorProps {
+  /** Connection state */
+  readonly status: StreamStatus;
+  /** Wait in ms before the next reconnect attempt while reconnecting */
+  readonly retryIn?: number | null;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/**
+ * StreamStatusIndicator uses the good-zone color when connected, the
+ * borderline color while connecting or reconnecting and the not-measured
+ * grey when disconnected. Screen readers are told when the status changes.
+ */
+export const StreamStatusIndicator: React.FC<StreamStatusIndicatorProps> = ({
+  status,
+  retryIn,
+  testID,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  const dotColors: Record<StreamStatus, string> = {
+    connecting: colors.zone.yellow,
+    open: colors.zone.green,
+    reconnecting: colors.zone.yellow,
+    closed: colors.notMeasured,
+  };
+  const label = t(`liveStatus.${status}` as const, {
+    seconds: Math.ceil((retryIn ?? 0) / 1000),
+  });
+  useAnnounceOnChange(status, label);
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={[styles.dot, { backgroundColor: dotColors[status] }]} />
+      <Text style={styles.label}>{label}</Text>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    dot: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginRight: 8,
+    },
+    label: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text.primary,
+    },
+  });
+
+export default StreamStatusIndicator;
@@ -0,0 +1,143 @@
+/**
+ * Overall verdict panel for a surgical session.
+ * Summarizes the rule-based interpretation and lists, per graft,
+ * the findings that explain the verdict.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { RuleFinding, SurgicalSession } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { interpretGraft, interpretSession } from '../utils/interpretation';
+import { getFindingMessage, getMetricLabel } from '../utils/i18n';
+
+interface VerdictPanelProps {
+  /** Session to interpret */
+  readonly session: SurgicalSession;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/**
+ * VerdictPanel renders the session verdict followed by the findings
+ * of each graft that triggered at least one rule.
+ */
+export const VerdictPanel: React.FC<VerdictPanelProps> = ({ session, testID }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const verdict = interpretSession(session);
+  const { t } = useI18n();
+  const accentColor = verdict.severity ? colors.severity[verdict.severity] : colors.zone.green;
+
+  return (
+    <View style={[styles.card, { borderLeftColor: accentColor }]} testID={testID}>
+      <Text style={styles.title}>{t('verdict.title')}</Text>
+      <Text
+        style={[styles.summary, { color: accentColor }]}
+        accessibilityRole="header"
+      >
+        {t(`verdict.${verdict.severity ?? 'none'}` as const)}
+      </Text>
+
+      {session.grafts.map((graft) => {
+        const { findings } = interpretGraft(graft);
+        if (findings.length === 0) return null;
+
+        return (
+          <View key={graft.id} style={styles.graft}>
+            <Text style={styles.graftName}>{graft.name}</Text>
+            {findings.map((finding) => (
+              <FindingRow key={finding.ruleId} finding={finding} />
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+/**
+ * A single finding with its severity and triggering metrics.
+ */
+const FindingRow: React.FC<{ finding: RuleFinding }> = ({ finding }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = useI18n();
+
+  return (
+    <View style={styles.finding}>
+      <Text style={[styles.severity, { color: colors.severity[finding.severity] }]}>
+        {t(`severity.${finding.severity}` as const)}
+      </Text>
+      <View style={styles.findingBody}>
+        <Text style={styles.message}>{getFindingMessage(finding, locale)}</Text>
+        <Text style={styles.metrics}>
+          {t('verdict.basedOn', {
+            metrics: finding.metrics.map((key) => getMetricLabel(key, locale)).join(', '),
+          })}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface.card,
+      borderRadius: 12,
+      padding: 20,
+      marginBottom: 24,
+      borderWidth: 1,
+      borderColor: colors.surface.border,
+      borderLeftWidth: 4,
+    },
+    title: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text.secondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+    summary: {
+      fontSize: 20,
+      fontWeight: '700',
+      marginTop: 4,
+      letterSpacing: -0.25,
+    },
+    graft: {
+      marginTop: 16,
+    },
+    graftName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text.primary,
+      marginBottom: 6,
+    },
+    finding: {
+      flexDirection: 'row',
+      paddingVertical: 4,
+    },
+    severity: {
+      width: 80,
+      fontSize: 13,
+      fontWeight: '700',
+    },
+    findingBody: {
+      flex: 1,
+    },
+    message: {
+      fontSize: 14,
+      color: colors.text.primary,
+      lineHeight: 20,
+    },
+    metrics: {
+      fontSize: 12,
+      color: colors.text.tertiary,
+      marginTop: 2,
+    },
+  });
+
+export default VerdictPanel;
@@ -0,0 +1,175 @@
+/**
+ * Editable list of zone boundaries for one metric range.
+ * Each row holds the zone's start and end and a color picker.
+ */
+
+import React from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import { ZoneType } from '../types/metrics';
+import { ThemeColors } from '../constants/colors';
+import { ZoneDraft } from '../hooks/useProfileEditor';
+import { useI18n } from '../hooks/useI18n';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+
+const ZONE_TYPES: readonly ZoneType[] = ['green', 'yellow', 'red'];
+
+interface ZoneEditorProps {
+  /** Zones being edited, in display order */
+  readonly zones: readonly ZoneDraft[];
+  /** Unit shown next to the bounds */
+  readonly unit: string;
+  /** Zone indices with validation errors */
+  readonly invalidIndices?: readonly number[];
+  readonly onChange: (index: number, zone: Partial<ZoneDraft>) => void;
+  readonly onAdd: () => void;
+  readonly onRemove: (index: number) => void;
+  /** Optional test ID */
+  readonly testID?: string;
+}
+
+/**
+ * ZoneEditor renders one row per zone plus an "Add Zone" action.
+ */
+export const ZoneEditor: React.FC<ZoneEditorProps> = ({
+  zones,
+  unit,
+  invalidIndices = [],
+  onChange,
+  onAdd,
+  onRemove,
+  testID,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.label}>
+        {unit.length > 0 ? t('zoneEditor.titleUnit', { unit }) : t('zoneEditor.title')}
+      </Text>
+      {zones.map((zone, index) => (
+        <View key={index} style={styles.row}>
+          <TextInput
+            style={[styles.input, invalidIndices.includes(index) && styles.inputError]}
+            value={zone.start}
+            onChangeText={(text) => onChange(index, { start: text })}
+            keyboardType="decimal-pad"
+            accessibilityLabel={t('zoneEditor.startA11y', { index: index + 1 })}
+          />
+          <Text style={styles.dash}>–</Text>
+          <TextInput
+            style={[styles.input, invalidIndices.includes(index) && styles.inputError]}
+            value={zone.end}
+            onChangeText={(text) => onChange(index, { end: text })}
+            keyboardType="decimal-pad"
+            accessibilityLabel={t('zoneEditor.endA11y', { index: index + 1 })}
+          />
+          <View style={styles.swatches}>
+            {ZONE_TYPES.map((type) => (
+              <Pressable
+                key={type}
+                style={[
+                  styles.swatch,
+                  { backgroundColor: colors.zone[type] },
+                  zone.type === type && styles.swatchSelected,
+                ]}
+                onPress={() => onChange(index, { type })}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: zone.type === type }}
+                accessibilityLabel={t('zoneEditor.typeA11y', {
+                  index: index + 1,
+                  zone: t(`zone.${type}` as const),
+                })}
+              />
+            ))}
+          </View>
+          <Pressable
+            onPress={() => onRemove(index)}
+            accessibilityRole="button"
+            accessibilityLabel={t('zoneEditor.removeA11y', { index: index + 1 })}
+            hitSlop={8}
+          >
+            <Text style={styles.remove}>✕</Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable
+        onPress={onAdd}
+        accessibilityRole="button"
+        accessibilityLabel={t('zoneEditor.addA11y')}
+      >
+        <Text style={styles.add}>{t('zoneEditor.add')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text.secondary,
+      marginBottom: 6,
+      letterSpacing: 0.25,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    input: {
+      width: 72,
+      height: 40,
+      borderWidth: 1,
+      borderColor: colors.ui.inputBorder,
+      borderRadius: 8,
+      paddingHorizontal: 10,
+      fontSize: 16,
+      color: colors.text.primary,
+      backgroundColor: colors.surface.card,
+    },
+    inputError: {
+      borderColor: colors.zone.red,
+    },
+    dash: {
+      marginHorizontal: 6,
+      fontSize: 16,
+      color: colors.text.secondary,
+    },
+    swatches: {
+      flexDirection: 'row',
+      flex: 1,
+      marginLeft: 12,
+    },
+    swatch: {
+      width: 28,
+      height: 28,
+      borderRadius: 14,
+      marginRight: 8,
+      borderWidth: 2,
+      borderColor: 'transparent',
+      opacity: 0.35,
+    },
+    swatchSelected: {
+      borderColor: colors.text.primary,
+      opacity: 1,
+    },
+    remove: {
+      fontSize: 16,
+      color: colors.text.tertiary,
+      paddingHorizontal: 4,
+    },
+    add: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.ui.primaryButton,
+      marginTop: 4,
+    },
+  });
+
+export default ZoneEditor;
@@ -2,8 +2,14 @@
  * Centralized color palette for the medical visualization UI.
  * Colors are chosen to be professional, high-contrast, and suitable
  * for medical device interfaces.
+ *
+ * The named palettes below form the light theme; dark and high-contrast
+ * themes provide the same roles for dimmed operating rooms. Components
+ * read the active theme through useTheme rather than these constants.
  */
 
+import { FindingSeverity, ZoneType } from '../types/metrics';
+
 /** Zone colors for gauge arcs and indicators */
 export const ZONE_COLORS = {
   /** Optimal range - indicates healthy/acceptable values */
@@ -14,6 +20,9 @@ export const ZONE_COLORS = {
   red: '#C62828',
 } as const;
 
+/** Neutral color for metrics that were not measured */
+export const NOT_MEASURED_COLOR = '#BDBDBD';
+
 /** Background and surface colors */
 export const SURFACE_COLORS = {
   /** Primary background */
@@ -58,5 +67,214 @@ export const UI_COLORS = {
   needleCenter: '#263238',
 } as const;
 
+/** Flow waveform chart colors */
+export const CHART_COLORS = {
+  /** Flow curve stroke */
+  flowLine: '#1565C0',
+  /** Systolic phase shading */
+  systole: '#FFE0B2',
+  /** Diastolic phase shading */
+  diastole: '#E3F2FD',
+  /** Negative (backflow) area fill */
+  backflow: '#C6282866',
+  /** Zero flow reference line */
+  zeroLine: '#616161',
+  /** Axis and grid lines */
+  grid: '#E0E0E0',
+} as const;
+
+/** Interpretation finding colors, aligned with the zone palette */
+export const SEVERITY_COLORS: Readonly<Record<FindingSeverity, string>> = {
+  info: '#1565C0',
+  caution: ZONE_COLORS.yellow,
+  critical: ZONE_COLORS.red,
+} as const;
+
 /** Type for zone color keys */
 export type ZoneColorKey = keyof typeof ZONE_COLORS;
+
+/** Available display themes */
+export const THEME_IDS = ['light', 'dark', 'highContrast'] as const;
+
+/** A display theme */
+export type ThemeId = (typeof THEME_IDS)[number];
+
+/** Preferred theme; 'system' follows the device's light or dark setting */
+export type ThemePreference = ThemeId | 'system';
+
+/** Every color role a theme provides */
+export interface ThemeColors {
+  readonly zone: Readonly<Record<ZoneColorKey, string>>;
+  readonly notMeasured: string;
+  readonly surface: Readonly<Record<keyof typeof SURFACE_COLORS, string>>;
+  readonly text: Readonly<Record<keyof typeof TEXT_COLORS, string>>;
+  readonly ui: Readonly<Record<keyof typeof UI_COLORS, string>>;
+  readonly chart: Readonly<Record<keyof typeof CHART_COLORS, string>>;
+  readonly severity: Readonly<Record<FindingSeverity, string>>;
+  /** Status bar content style that stays legible on the background */
+  readonly statusBar: 'light' | 'dark';
+}
+
+/** Default theme built from the palettes above */
+export const LIGHT_THEME: ThemeColors = {
+  zone: ZONE_COLORS,
+  notMeasured: NOT_MEASURED_COLOR,
+  surface: SURFACE_COLORS,
+  text: TEXT_COLORS,
+  ui: UI_COLORS,
+  chart: CHART_COLORS,
+  severity: SEVERITY_COLORS,
+  statusBar: 'dark',
+};
+
+/** Dimmed theme for dark rooms; zone colors are lightened to keep contrast */
+export const DARK_THEME: ThemeColors = {
+  zone: {
+    green: '#66BB6A',
+    yellow: '#FDD835',
+    red: '#EF5350',
+  },
+  notMeasured: '#616161',
+  surface: {
+    background: '#121212',
+    card: '#1E1E1E',
+    elevated: '#262626',
+    border: '#333333',
+    gaugeBackground: '#2C2C2C',
+  },
+  text: {
+    primary: '#ECEFF1',
+    secondary: '#B0BEC5',
+    tertiary: '#78909C',
+    inverse: '#FFFFFF',
+    value: '#90CAF9',
+  },
+  ui: {
+    primaryButton: '#1E88E5',
+    primaryButtonPressed: '#1565C0',
+    inputBorder: '#546E7A',
+    inputBorderFocused: '#64B5F6',
+    needle: '#CFD8DC',
+    needleCenter: '#ECEFF1',
+  },
+  chart: {
+    flowLine: '#64B5F6',
+    systole: '#4E342E',
+    diastole: '#0D2A40',
+    backflow: '#EF535066',
+    zeroLine: '#B0BEC5',
+    grid: '#333333',
+  },
+  severity: {
+    info: '#64B5F6',
+    caution: '#FDD835',
+    critical: '#EF5350',
+  },
+  statusBar: 'light',
+};
+
+/** Maximum-contrast theme: white on black with saturated accents */
+export const HIGH_CONTRAST_THEME: ThemeColors = {
+  zone: {
+    green: '#00E676',
+    yellow: '#FFEA00',
+    red: '#FF5252',
+  },
+  notMeasured: '#9E9E9E',
+  surface: {
+    background: '#000000',
+    card: '#000000',
+    elevated: '#0A0A0A',
+    border: '#FFFFFF',
+    gaugeBackground: '#424242',
+  },
+  text: {
+    primary: '#FFFFFF',
+    secondary: '#E0E0E0',
+    tertiary: '#BDBDBD',
+    inverse: '#000000',
+    value: '#FFFFFF',
+  },
+  ui: {
+    primaryButton: '#00E5FF',
+    primaryButtonPressed: '#00B8D4',
+    inputBorder: '#FFFFFF',
+    inputBorderFocused: '#00E5FF',
+    needle: '#FFFFFF',
+    needleCenter: '#FFFFFF',
+  },
+  chart: {
+    flowLine: '#00E5FF',
+    systole: '#3E2723',
+    diastole: '#002B36',
+    backflow: '#FF525266',
+    zeroLine: '#FFFFFF',
+    grid: '#757575',
+  },
+  severity: {
+    info: '#00E5FF',
+    caution: '#FFEA00',
+    critical: '#FF5252',
+  },
+  statusBar: 'light',
+};
+
+/** Colors per theme */
+export const THEMES: Readonly<Record<ThemeId, ThemeColors>> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  highContrast: HIGH_CONTRAST_THEME,
+};
+
+/** Ways of telling zones apart */
+export const ZONE_ENCODINGS = ['color', 'colorSafe'] as const;
+
+/**
+ * Zone encoding: 'color' uses the theme's green/yellow/red, 'colorSafe'
+ * swaps in a color-vision-deficiency-safe palette and adds non-color cues.
+ */
+export type ZoneEncoding = (typeof ZONE_ENCODINGS)[number];
+
+/**
+ * Zone colors for the color-safe encoding, based on the Okabe–Ito palette.
+ * Blue, orange and vermillion stay distinguishable with red-green color
+ * blindness and also differ in lightness.
+ */
+export const COLOR_SAFE_ZONE_COLORS: Readonly<Record<ThemeId, Readonly<Record<ZoneColorKey, string>>>> = {
+  light: {
+    green: '#0072B2',
+    yellow: '#E69F00',
+    red: '#A33C00',
+  },
+  dark: {
+    green: '#56B4E9',
+    yellow: '#F0E442',
+    red: '#E8743B',
+  },
+  highContrast: {
+    green: '#56B4E9',
+    yellow: '#FFFF00',
+    red: '#FF7A1A',
+  },
+};
+
+/**
+ * Returns a theme with its zone and finding colors replaced by the
+ * color-safe palette.
+ */
+export const withColorSafeZones = (themeId: ThemeId): ThemeColors => {
+  const theme = THEMES[themeId];
+  const zone = COLOR_SAFE_ZONE_COLORS[themeId];
+  return {
+    ...theme,
+    zone,
+    severity: { ...theme.severity, caution: zone.yellow, critical: zone.red },
+  };
+};
+
+/**
+ * Returns the color of a zone, or the neutral color when there is none
+ * (e.g. nothing was measured).
+ */
+export const getZoneColor = (zone: ZoneType | null, colors: ThemeColors = LIGHT_THEME): string =>
+  zone ? colors.zone[zone] : colors.notMeasured;
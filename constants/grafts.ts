@@ -0,0 +1,60 @@
+/**
+ * Descriptive metadata for graft conduits and target vessels.
+ * Used to label graft assessments throughout the session screens.
+ */
+
+import { ConduitType, TargetVessel } from '../types/metrics';
+
+/** Whether a conduit is an artery or a vein */
+export type ConduitCategory = 'arterial' | 'venous';
+
+/** Coronary territory supplied by a target vessel */
+export type CoronaryTerritory = 'LAD' | 'CX' | 'RCA';
+
+/** Display information for a conduit type */
+export interface ConduitInfo {
+  readonly label: string;
+  readonly category: ConduitCategory;
+}
+
+/** Display information for a target vessel */
+export interface TargetVesselInfo {
+  readonly label: string;
+  readonly territory: CoronaryTerritory;
+}
+
+/** Conduit preselected for a new graft (the classic LIMA-LAD) */
+export const DEFAULT_CONDUIT: ConduitType = 'LIMA';
+
+/** Target vessel preselected for a new graft */
+export const DEFAULT_TARGET: TargetVessel = 'LAD';
+
+/** Conduit metadata keyed by ConduitType */
+export const CONDUIT_INFO: Readonly<Record<ConduitType, ConduitInfo>> = {
+  LIMA: { label: 'Left Internal Mammary Artery', category: 'arterial' },
+  RIMA: { label: 'Right Internal Mammary Artery', category: 'arterial' },
+  SVG: { label: 'Saphenous Vein Graft', category: 'venous' },
+  RA: { label: 'Radial Artery', category: 'arterial' },
+  GEA: { label: 'Gastroepiploic Artery', category: 'arterial' },
+} as const;
+
+/** Target vessel metadata keyed by TargetVessel */
+export const TARGET_VESSEL_INFO: Readonly<Record<TargetVessel, TargetVesselInfo>> = {
+  LAD: { label: 'Left Anterior Descending', territory: 'LAD' },
+  D1: { label: 'First Diagonal', territory: 'LAD' },
+  D2: { label: 'Second Diagonal', territory: 'LAD' },
+  RI: { label: 'Ramus Intermedius', territory: 'CX' },
+  OM1: { label: 'First Obtuse Marginal', territory: 'CX' },
+  OM2: { label: 'Second Obtuse Marginal', territory: 'CX' },
+  RCA: { label: 'Right Coronary Artery', territory: 'RCA' },
+  PDA: { label: 'Posterior Descending Artery', territory: 'RCA' },
+  PLB: { label: 'Posterolateral Branch', territory: 'RCA' },
+} as const;
+
+/**
+ * Builds the conventional graft name, e.g. "LIMA-LAD".
+ */
+export const getDefaultGraftName = (
+  conduit: ConduitType,
+  target: TargetVessel
+): string => `${conduit}-${target}`;
@@ -0,0 +1,40 @@
+/**
+ * Supported interface languages and their number conventions.
+ * Message catalogs live in constants/messages; English is the
+ * reference catalog every other language must match.
+ */
+
+import { EN_MESSAGES, MessageCatalog } from './messages/en';
+import { IT_MESSAGES } from './messages/it';
+import { DE_MESSAGES } from './messages/de';
+
+/** Languages the interface is translated into */
+export const LOCALES = ['en', 'it', 'de'] as const;
+
+/** A supported interface language */
+export type LocaleId = (typeof LOCALES)[number];
+
+/** Language used when the device language is not supported */
+export const DEFAULT_LOCALE: LocaleId = 'en';
+
+/** Display and number conventions of a language */
+export interface LocaleInfo {
+  /** Language name in that language */
+  readonly label: string;
+  /** Decimal mark accepted in input and used in output */
+  readonly decimalSeparator: string;
+}
+
+/** Conventions per supported language */
+export const LOCALE_INFO: Readonly<Record<LocaleId, LocaleInfo>> = {
+  en: { label: 'English', decimalSeparator: '.' },
+  it: { label: 'Italiano', decimalSeparator: ',' },
+  de: { label: 'Deutsch', decimalSeparator: ',' },
+} as const;
+
+/** Message catalog per supported language */
+export const MESSAGE_CATALOGS: Readonly<Record<LocaleId, MessageCatalog>> = {
+  en: EN_MESSAGES,
+  it: IT_MESSAGES,
+  de: DE_MESSAGES,
+};
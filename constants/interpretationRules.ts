@@ -0,0 +1,92 @@
+/**
+ * Default rules used to interpret a graft's metrics as a whole.
+ * Each rule combines one or more conditions; zone conditions are resolved
+ * against the graft's reference profile, thresholds are absolute.
+ *
+ * Note: These are representative educational rules, not clinical standards.
+ */
+
+import { FindingSeverity, InterpretationRule } from '../types/metrics';
+
+/** Severities ordered from least to most serious */
+export const FINDING_SEVERITIES: readonly FindingSeverity[] = [
+  'info',
+  'caution',
+  'critical',
+] as const;
+
+/** Human-readable label per severity */
+export const FINDING_SEVERITY_LABELS: Readonly<Record<FindingSeverity, string>> = {
+  info: 'Note',
+  caution: 'Caution',
+  critical: 'Critical',
+} as const;
+
+/**
+ * Built-in interpretation rules, evaluated in order.
+ */
+export const DEFAULT_INTERPRETATION_RULES: readonly InterpretationRule[] = [
+  {
+    id: 'unreliable-measurement',
+    severity: 'caution',
+    message:
+      'Acoustic coupling is poor, so the measurement is unreliable. Improve probe contact and repeat.',
+    when: [{ kind: 'zone', metric: 'ACI', zone: 'red' }],
+  },
+  {
+    id: 'technical-problem',
+    severity: 'critical',
+    message:
+      'Low flow with high pulsatility suggests a technical problem at the anastomosis. Consider revision.',
+    when: [
+      { kind: 'below', metric: 'MF', value: 20 },
+      { kind: 'above', metric: 'PI', value: 5 },
+    ],
+  },
+  {
+    id: 'competitive-flow',
+    severity: 'caution',
+    message:
+      'Backflow with raised pulsatility may indicate competitive native flow or a distal stenosis.',
+    when: [
+      { kind: 'above', metric: 'BF', value: 3 },
+      { kind: 'above', metric: 'PI', value: 3 },
+    ],
+  },
+  {
+    id: 'small-runoff',
+    severity: 'info',
+    message:
+      'Low flow with normal pulsatility may reflect a small run-off territory rather than a graft problem.',
+    when: [
+      { kind: 'zone', metric: 'MF', zone: 'red' },
+      { kind: 'zone', metric: 'PI', zone: 'green' },
+    ],
+  },
+  {
+    id: 'systolic-dominant',
+    severity: 'caution',
+    message:
+      'Flow is predominantly systolic. Check for graft kinking or competitive flow.',
+    when: [{ kind: 'below', metric: 'DF', value: 50 }],
+  },
+  {
+    id: 'low-pressure',
+    severity: 'caution',
+    message:
+      'Low arterial pressure reduces graft flow. Re-measure once MAP is restored.',
+    when: [{ kind: 'below', metric: 'MAP', value: 60 }],
+  },
+  {
+    id: 'missing-mean-flow',
+    severity: 'info',
+    message: 'Mean Flow was not measured, so the interpretation is incomplete.',
+    when: [{ kind: 'missing', metric: 'MF' }],
+  },
+  {
+    id: 'missing-pulsatility',
+    severity: 'info',
+    message: 'Pulsatility Index was not measured, so the interpretation is incomplete.',
+    when: [{ kind: 'missing', metric: 'PI' }],
+  },
+];
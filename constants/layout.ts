@@ -0,0 +1,23 @@
+/**
+ * Breakpoints and sizes for the results dashboard.
+ * Wide windows, such as tablets or phones in landscape, lay gauge cards
+ * out in a grid of compact cards instead of a single column.
+ */
+
+/** Narrowest window width, in points, shown as a dashboard grid */
+export const DASHBOARD_MIN_WIDTH = 600;
+
+/** Columns of the grid in landscape, fitting six metrics in two rows */
+export const LANDSCAPE_COLUMNS = 3;
+
+/** Columns of the grid in portrait, fitting six metrics in three rows */
+export const PORTRAIT_COLUMNS = 2;
+
+/** Narrowest a compact card may get before the grid drops a column */
+export const COMPACT_CARD_MIN_WIDTH = 200;
+
+/** Gauge size inside a compact card */
+export const COMPACT_GAUGE_SIZE = 150;
+
+/** Space between neighbouring cards of the grid */
+export const DASHBOARD_GUTTER = 12;
@@ -0,0 +1,391 @@
+/**
+ * German message catalog.
+ */
+
+import { MessageCatalog } from './en';
+
+export const DE_MESSAGES: MessageCatalog = {
+  // Navigation
+  'nav.index': 'CABG-Messwerte eingeben',
+  'nav.editGraft': 'Graft bearbeiten',
+  'nav.session': 'Operation',
+  'nav.results': 'Ergebnisse',
+  'nav.history': 'Gespeicherte Befunde',
+  'nav.waveform': 'Flusskurvenanalyse',
+  'nav.import': 'Messungen importieren',
+  'nav.profiles': 'Referenzbereiche',
+  'nav.settings': 'Einstellungen',
+  'nav.comparison': 'Revisionsvergleich',
+  'nav.timeline': 'Messverlauf',
+  'nav.live': 'Live-Messung',
+  'nav.quiz': 'Trainingsquiz',
+  'nav.back': 'Zurück',
+
+  // Input screen
+  'input.title': 'Messwerte eingeben',
+  'input.editTitle': '{name} bearbeiten',
+  'input.subtitle': 'Graft beschreiben und die Werte der CABG-Messung eingeben',
+  'input.sessionLinkOne': 'Aktuelle Operation: {count} Graft ›',
+  'input.sessionLinkOther': 'Aktuelle Operation: {count} Grafts ›',
+  'input.sessionLinkA11y': 'Aktuelle Operation öffnen',
+  'input.historyLink': 'Verlauf ›',
+  'input.historyLinkA11y': 'Gespeicherte Befunde öffnen',
+  'input.waveformLink': 'Aus Flusskurve ›',
+  'input.waveformLinkA11y': 'Messwerte aus einer Flusskurve berechnen',
+  'input.importLink': 'Import ›',
+  'input.importLinkA11y': 'Messungen aus einer Datei importieren',
+  'input.profilesLink': 'Referenzbereiche ›',
+  'input.profilesLinkA11y': 'Referenzbereiche bearbeiten',
+  'input.settingsLink': 'Einstellungen ›',
+  'input.settingsLinkA11y': 'Einstellungen öffnen',
+  'input.liveLink': 'Live ›',
+  'input.liveLinkA11y': 'Messwerte aus einem Live-Datenstrom empfangen',
+  'input.quizLink': 'Training ›',
+  'input.quizLinkA11y': 'Das Einordnen von Grafts üben',
+  'input.addGraft': 'Graft zur Operation hinzufügen',
+  'input.updateGraft': 'Graft aktualisieren',
+  'input.blocked': 'Markierte Werte korrigieren, um fortzufahren',
+  'input.phase': 'Messphase',
+  'input.phaseNone': 'Keine',
+  'input.phaseHint':
+    'Mit einer Phase gespeicherte Werte werden dem Verlauf des Grafts hinzugefügt.',
+
+  // Graft details
+  'graft.conduit': 'Conduit',
+  'graft.target': 'Zielgefäß',
+  'graft.profile': 'Referenzprofil',
+  'graft.name': 'Graft-Name',
+  'graft.nameA11y': 'Eingabe Graft-Name',
+  'graft.revisionOf': 'Revision von',
+  'graft.revisionNone': 'Keine',
+
+  // Numeric input
+  'numericInput.a11yLabel': 'Eingabe {label}',
+  'numericInput.a11yHint': 'Wert für {label} eingeben',
+  'numericInput.a11yHintUnit': 'Wert für {label} in {unit} eingeben',
+
+  // Input validation
+  'validation.notANumber': 'Zahl eingeben, z. B. 12 oder 2,5',
+  'validation.implausible': 'Kein plausibler Messwert; erwartet {min}–{max}{unit}',
+  'validation.offScale': 'Außerhalb der Skala von {min}–{max}{unit}',
+  'validation.wholeNumber': 'Wird üblicherweise als ganze Zahl angegeben',
+  'validation.decimalsOne': 'Wird üblicherweise mit {decimals} Nachkommastelle angegeben',
+  'validation.decimalsOther': 'Wird üblicherweise mit {decimals} Nachkommastellen angegeben',
+
+  // Results screen
+  'results.title': 'Ergebnisse',
+  'results.subtitle': 'Grafische Darstellung der eingegebenen CABG-Messwerte',
+  'results.empty': 'Noch keine Grafts in dieser Operation.',
+  'results.save': 'Im Verlauf speichern',
+  'results.saved': 'Gespeichert ✓',
+  'results.saveFailedTitle': 'Speichern fehlgeschlagen',
+  'results.saveFailedMessage': 'Der Befund konnte auf diesem Gerät nicht gespeichert werden.',
+  'results.madeBy': 'Mit ❤️ entwickelt von',
+  'results.referenceProfile': 'Referenzprofil: {profile}',
+
+  // Session screen
+  'session.title': 'Operation',
+  'session.countOne': '{count} Graft beurteilt',
+  'session.countOther': '{count} Grafts beurteilt',
+  'session.empty': 'Noch keine Grafts beurteilt',
+  'session.profile': 'Profil: {profile}',
+  'session.revisionOf': 'Revision von {name}',
+  'session.compare': 'Vergleichen',
+  'session.compareA11y': '{name} vor und nach der Revision vergleichen',
+  'session.edit': 'Bearbeiten',
+  'session.editA11y': '{name} bearbeiten',
+  'session.remove': 'Entfernen',
+  'session.removeA11y': '{name} entfernen',
+  'session.viewResults': 'Ergebnisse anzeigen',
+  'session.addGraft': 'Weiteren Graft hinzufügen',
+
+  // History screen
+  'history.title': 'Gespeicherte Befunde',
+  'history.subtitle': 'Auf diesem Gerät gespeicherte Befunde, neueste zuerst',
+  'history.empty': 'Noch keine gespeicherten Befunde.',
+  'history.noGrafts': 'Keine Grafts',
+  'history.open': 'Öffnen',
+  'history.openA11y': 'Befund öffnen',
+  'history.duplicate': 'Duplizieren',
+  'history.duplicateA11y': 'Befund duplizieren',
+  'history.delete': 'Löschen',
+  'history.deleteA11y': 'Befund löschen',
+  'history.deleteTitle': 'Befund löschen?',
+  'history.deleteMessage': 'Dieser gespeicherte Befund wird entfernt.',
+  'history.cancel': 'Abbrechen',
+  'history.unavailableTitle': 'Verlauf nicht verfügbar',
+  'history.unavailableMessage': 'Die gespeicherten Befunde konnten nicht geladen werden.',
+  'history.duplicateFailedTitle': 'Duplizieren fehlgeschlagen',
+  'history.duplicateFailedMessage': 'Der Befund konnte nicht dupliziert werden.',
+  'history.deleteFailedTitle': 'Löschen fehlgeschlagen',
+  'history.deleteFailedMessage': 'Der Befund konnte nicht gelöscht werden.',
+
+  // Import screen
+  'import.title': 'Messungen importieren',
+  'import.subtitle': 'CSV- oder JSON-Export mit einer Zeile pro Graft laden',
+  'import.chooseFile': 'Datei auswählen',
+  'import.readFailed': 'Die ausgewählte Datei konnte nicht gelesen werden.',
+  'import.paste': 'Oder den Inhalt des Exports einfügen',
+  'import.pasteA11y': 'Eingabe Exportinhalt',
+  'import.parse': 'Einlesen',
+  'import.rowsOne': '{count} Zeile importiert ({format})',
+  'import.rowsOther': '{count} Zeilen importiert ({format})',
+  'import.file': 'Datei',
+  'import.row': 'Zeile {row}',
+  'import.fillForm': 'Ins Formular',
+  'import.fillFormA11y': 'Formular mit Zeile {row} ausfüllen',
+  'import.addAllOne': '{count} Graft zur Operation hinzufügen',
+  'import.addAllOther': '{count} Grafts zur Operation hinzufügen',
+  'import.addAllA11y': 'Alle Zeilen zur Operation hinzufügen',
+
+  // Waveform analysis
+  'waveform.title': 'Flusskurve analysieren',
+  'waveform.subtitle': 'MF, PI, DF und BF aus einer abgetasteten Transit-Time-Flusskurve berechnen',
+  'waveform.samples': 'Flusswerte',
+  'waveform.samplesA11y': 'Eingabe Flusswerte',
+  'waveform.rPeaks': 'R-Zacken-Zeitpunkte (optional)',
+  'waveform.rPeaksA11y': 'Eingabe R-Zacken-Zeitpunkte',
+  'waveform.rPeaksHint': 'Ohne R-Zacken kann die diastolische Füllung nicht berechnet werden.',
+  'waveform.analyze': 'Flusskurve analysieren',
+  'waveform.analysisFailed': 'Analyse fehlgeschlagen',
+  'waveform.viewResults': 'Ergebnisse anzeigen',
+  'waveformChart.title': 'Flusskurve',
+  'waveformChart.systole': 'Systole',
+  'waveformChart.diastole': 'Diastole',
+  'waveformChart.backflow': 'Rückfluss',
+
+  // Reference range profiles
+  'profiles.title': 'Referenzbereiche',
+  'profiles.subtitle': 'Die Grenzwerte Ihrer Klinik als benanntes Profil festlegen',
+  'profiles.saved': 'Gespeicherte Profile',
+  'profiles.empty': 'Noch keine eigenen Profile.',
+  'profiles.edit': 'Bearbeiten',
+  'profiles.editA11y': '{name} bearbeiten',
+  'profiles.delete': 'Löschen',
+  'profiles.deleteA11y': '{name} löschen',
+  'profiles.deleteTitle': 'Profil löschen?',
+  'profiles.deleteMessage': '„{name}“ wird von diesem Gerät entfernt.',
+  'profiles.cancel': 'Abbrechen',
+  'profiles.deleteFailedTitle': 'Löschen fehlgeschlagen',
+  'profiles.deleteFailedMessage': 'Das Profil konnte nicht gelöscht werden.',
+  'profiles.savedTitle': 'Profil gespeichert',
+  'profiles.savedMessage': '„{name}“ kann jetzt für Grafts ausgewählt werden.',
+  'profiles.saveFailedTitle': 'Speichern fehlgeschlagen',
+  'profiles.saveFailedMessage': 'Das Profil konnte nicht gespeichert werden.',
+  'profiles.editor': 'Profil bearbeiten',
+  'profiles.startFrom': 'Ausgehend von',
+  'profiles.name': 'Profilname',
+  'profiles.namePlaceholder': 'z. B. Unsere Klinik – Arteriell',
+  'profiles.nameA11y': 'Eingabe Profilname',
+  'profiles.metric': 'Messwert',
+  'profiles.previewInvalid': 'Fehler unten beheben, um die Vorschau zu sehen.',
+  'profiles.previewValue': 'Vorschauwert',
+  'profiles.scaleMin': 'Skalenminimum',
+  'profiles.scaleMax': 'Skalenmaximum',
+  'profiles.otherErrorsOne': '{count} Problem bei anderen Messwerten',
+  'profiles.otherErrorsOther': '{count} Probleme bei anderen Messwerten',
+  'profiles.save': 'Profil speichern',
+  'profiles.reset': 'Auf Standard zurücksetzen',
+  'zoneEditor.title': 'Bereiche',
+  'zoneEditor.titleUnit': 'Bereiche ({unit})',
+  'zoneEditor.startA11y': 'Beginn Bereich {index}',
+  'zoneEditor.endA11y': 'Ende Bereich {index}',
+  'zoneEditor.typeA11y': 'Bereich {index}: {zone}',
+  'zoneEditor.removeA11y': 'Bereich {index} entfernen',
+  'zoneEditor.add': '+ Bereich hinzufügen',
+  'zoneEditor.addA11y': 'Bereich hinzufügen',
+
+  // Gauges and summaries
+  'gauge.notMeasured': 'Nicht gemessen',
+  'gauge.aboveScale': 'Über dem Skalenmaximum von {max}',
+  'gauge.belowScale': 'Unter dem Skalenminimum von {min}',
+  'gauge.a11ySummary': '{metric} {value}, {zone}, {range}',
+  'gauge.a11yNotMeasured': '{metric} nicht gemessen, {range}',
+  'gauge.a11yRange': 'Bereich {min} bis {max}',
+  'gauge.a11yZoneChanged': '{metric} jetzt: {zone}',
+  'overview.title': 'Übersicht',
+  'overview.notMeasured': '{count} nicht gemessen',
+
+  // Revision comparison
+  'comparison.title': '{name} nach Revision',
+  'comparison.subtitle':
+    'Verglichen mit {before}. ▽ markiert den Wert vor der Revision, ▼ den Wert danach.',
+  'comparison.notFound': 'Dieser Graft ist mit keiner früheren Messung verknüpft.',
+  'comparison.before': 'Vorher',
+  'comparison.after': 'Nachher',
+  'comparison.improved': 'Verbessert',
+  'comparison.worsened': 'Verschlechtert',
+  'comparison.unchanged': 'Gleiche Zone',
+  'comparison.a11yValues': '{metric}: vorher {before}, nachher {after}',
+  'comparison.a11yDelta': 'Änderung {delta}',
+  'comparison.a11yZones': 'von {before} zu {after}, {change}',
+
+  // Measurement timeline
+  'phase.onPump': 'An der HLM',
+  'phase.offPump': 'Nach HLM',
+  'phase.afterProtamine': 'Nach Protamin',
+  'phase.afterChestClosure': 'Nach Thoraxverschluss',
+  'timeline.title': '{metric} · {name}',
+  'timeline.subtitle': 'Werte je Operationsphase über den Zonen der Messgröße',
+  'timeline.empty': 'Für diesen Graft gibt es noch keine Werte mit Messphase.',
+  'timeline.link': 'Verlauf ›',
+  'timeline.linkA11y': '{metric}-Verlauf anzeigen',
+  'timeline.a11yChart': '{metric} je Phase: {points}',
+  'timeline.a11yPoint': '{phase} {value}',
+
+  // Live streaming
+  'live.title': 'Live-Messung',
+  'live.subtitle': 'Die Anzeigen folgen dem Datenstrom von {url}',
+  'live.connect': 'Verbinden',
+  'live.disconnect': 'Trennen',
+  'live.lastFrame': 'Letzte Aktualisierung {time}',
+  'live.invalidUrl': 'ws://- oder wss://-Adresse in den Einstellungen festlegen ›',
+  'liveStatus.connecting': 'Verbinde…',
+  'liveStatus.open': 'Verbunden',
+  'liveStatus.reconnecting': 'Verbindung verloren · neuer Versuch in {seconds} s',
+  'liveStatus.closed': 'Getrennt',
+
+  // Training quiz
+  'scenario.goodGraft': 'Guter Graft',
+  'scenario.competitiveFlow': 'Konkurrierender Fluss',
+  'scenario.kinkedGraft': 'Abgeknickter Graft',
+  'scenario.poorCoupling': 'Schlechte Sondenankopplung',
+  'scenarioExplanation.goodGraft':
+    'Ausreichender mittlerer Fluss mit niedriger Pulsatilität, überwiegend diastolischer Füllung und wenig Rückfluss, gemessen bei guter akustischer Ankopplung.',
+  'scenarioExplanation.competitiveFlow':
+    'Der mittlere Fluss ist erhalten, doch deutlicher Rückfluss und erhöhte Pulsatilität zeigen, dass das native Gefäß mit dem Graft konkurriert.',
+  'scenarioExplanation.kinkedGraft':
+    'Sehr niedriger, überwiegend systolischer Fluss mit hoher Pulsatilität deutet auf ein mechanisches Hindernis wie einen Knick oder eine fehlerhafte Anastomose hin.',
+  'scenarioExplanation.poorCoupling':
+    'Der akustische Kopplungsindex ist niedrig, daher sind die Werte nicht verlässlich, so normal sie auch wirken. Sondenkontakt verbessern und erneut messen.',
+  'quiz.title': 'Graft einordnen',
+  'quiz.subtitle':
+    'Lesen Sie die Messwerte und wählen Sie das passende Szenario. Die Anzeigen erscheinen nach der Antwort.',
+  'quiz.question': 'Welches Szenario liegt vor?',
+  'quiz.correct': 'Richtig',
+  'quiz.incorrect': 'Nicht ganz: Es war {scenario}',
+  'quiz.next': 'Nächster Fall',
+  'quiz.progress': 'Ihr Fortschritt',
+  'quiz.noAnswers': 'Beantworten Sie einen Fall, um Ihre Punkte zu verfolgen.',
+  'quiz.score': '{correct} von {total} richtig ({percent} %)',
+  'quiz.recent': 'Letzte {count} Fälle: {percent} %',
+  'quiz.streak': 'Aktuelle Serie: {count}',
+  'quiz.scenarioScore': '{correct}/{total}',
+  'quiz.reset': 'Punkte zurücksetzen',
+  'quiz.resetTitle': 'Punkte zurücksetzen?',
+  'quiz.resetMessage': 'Ihre gespeicherten Antworten werden gelöscht.',
+  'quiz.cancel': 'Abbrechen',
+  'quiz.resetConfirm': 'Zurücksetzen',
+
+  // Interpretation
+  'verdict.title': 'Beurteilung',
+  'verdict.none': 'Keine Auffälligkeiten',
+  'verdict.info': 'Akzeptabel, mit Hinweisen',
+  'verdict.caution': 'Überprüfung empfohlen',
+  'verdict.critical': 'Revision erwägen',
+  'verdict.basedOn': 'Basierend auf {metrics}',
+  'severity.info': 'Hinweis',
+  'severity.caution': 'Achtung',
+  'severity.critical': 'Kritisch',
+  'rule.unreliable-measurement':
+    'Schlechte akustische Kopplung, die Messung ist unzuverlässig. Sondenkontakt verbessern und wiederholen.',
+  'rule.technical-problem':
+    'Niedriger Fluss bei hoher Pulsatilität deutet auf ein technisches Problem der Anastomose hin. Revision erwägen.',
+  'rule.competitive-flow':
+    'Rückfluss bei erhöhter Pulsatilität kann auf konkurrierenden Nativfluss oder eine distale Stenose hinweisen.',
+  'rule.small-runoff':
+    'Niedriger Fluss bei normaler Pulsatilität kann eher ein kleines Versorgungsgebiet als ein Graftproblem widerspiegeln.',
+  'rule.systolic-dominant':
+    'Der Fluss ist überwiegend systolisch. Auf Abknicken des Grafts oder konkurrierenden Fluss prüfen.',
+  'rule.low-pressure':
+    'Niedriger arterieller Druck vermindert den Graftfluss. Nach Wiederherstellung des MAP erneut messen.',
+  'rule.missing-mean-flow': 'Der mittlere Fluss wurde nicht gemessen, die Beurteilung ist unvollständig.',
+  'rule.missing-pulsatility':
+    'Der Pulsatilitätsindex wurde nicht gemessen, die Beurteilung ist unvollständig.',
+
+  // Metrics
+  'metric.MF': 'Mittlerer Fluss',
+  'metric.PI': 'Pulsatilitätsindex',
+  'metric.DF': 'Diastolische Füllung',
+  'metric.BF': 'Rückfluss',
+  'metric.ACI': 'Akustische Kopplung',
+  'metric.MAP': 'Mittlerer arterieller Druck',
+
+  // Built-in reference profiles
+  'profile.general': 'Allgemein',
+  'profile.arterial-LAD': 'Arteriell → LAD',
+  'profile.arterial-other': 'Arteriell → CX/RCA',
+  'profile.venous-LAD': 'Venös → LAD',
+  'profile.venous-RCA': 'Venös → RCA/CX',
+  'profile.sequential': 'Sequenziell',
+
+  // Conduits and target vessels
+  'conduit.LIMA': 'Linke A. thoracica interna',
+  'conduit.RIMA': 'Rechte A. thoracica interna',
+  'conduit.SVG': 'Vena saphena magna',
+  'conduit.RA': 'A. radialis',
+  'conduit.GEA': 'A. gastroepiploica',
+  'target.LAD': 'Ramus interventricularis anterior',
+  'target.D1': 'Erster Diagonalast',
+  'target.D2': 'Zweiter Diagonalast',
+  'target.RI': 'Ramus intermedius',
+  'target.OM1': 'Erster Marginalast',
+  'target.OM2': 'Zweiter Marginalast',
+  'target.RCA': 'Rechte Koronararterie',
+  'target.PDA': 'Ramus interventricularis posterior',
+  'target.PLB': 'Ramus posterolateralis',
+
+  // Zones and gauge scales
+  'zone.green': 'optimaler Bereich',
+  'zone.yellow': 'Grenzbereich',
+  'zone.red': 'kritischer Bereich',
+  'zoneEncoding.color': 'Farbe',
+  'zoneEncoding.colorSafe': 'Farbenblind-sicher',
+  'gaugeVariant.arc': 'Segmentbogen',
+  'gaugeVariant.needle': 'Zeiger',
+  'scaleMode.fixed': 'Fest',
+  'scaleMode.extend': 'An Wert anpassen',
+
+  // Spoken units
+  'unit.mL/min': 'Milliliter pro Minute',
+  'unit.L/min': 'Liter pro Minute',
+  'unit.mmHg': 'Millimeter Quecksilbersäule',
+  'unit.kPa': 'Kilopascal',
+  'unit.%': 'Prozent',
+
+  // Themes
+  'theme.light': 'Hell',
+  'theme.dark': 'Dunkel',
+  'theme.highContrast': 'Hoher Kontrast',
+
+  // Settings screen
+  'settings.title': 'Einstellungen',
+  'settings.subtitle': 'Einstellungen werden auf diesem Gerät gespeichert',
+  'settings.language': 'Sprache',
+  'settings.languageHint':
+    'Legt auch das Dezimaltrennzeichen für die Eingabe und Anzeige von Werten fest.',
+  'settings.system': 'System',
+  'settings.theme': 'Darstellung',
+  'settings.themeHint':
+    'Dunkles Design und hoher Kontrast bleiben im abgedunkelten OP gut lesbar.',
+  'settings.zoneEncoding': 'Bereichsdarstellung',
+  'settings.zoneEncodingHint':
+    'Farbenblind-sicher verwendet Blau, Orange und Zinnober, schraffiert Grenz- und kritische Bereiche auf der Skala und zeigt ✓, ! oder ✕ neben jedem Wert.',
+  'settings.gaugeVariant': 'Anzeigestil',
+  'settings.gaugeVariantHint':
+    'Der Segmentbogen füllt sich bis zum Wert; der Zeiger zeigt über den Bereichen auf ihn.',
+  'settings.scaleMode': 'Skala',
+  'settings.scaleModeHint':
+    'Werte außerhalb der Referenzskala werden mit einem Pfeil markiert. „An Wert anpassen“ erweitert die Skala, sodass der Wert an seiner Stelle erscheint.',
+  'settings.units': 'Einheiten',
+  'settings.unitsHint':
+    'Werte werden in der gewählten Einheit eingegeben und angezeigt. Gespeicherte Befunde bleiben unverändert.',
+  'settings.streamUrl': 'Live-Datenstrom',
+  'settings.streamUrlHint':
+    'WebSocket-Adresse, von der die Live-Ansicht Messwerte empfängt, z. B. ws://192.168.1.20:8080.',
+  'settings.streamUrlA11y': 'Adresse des Live-Datenstroms',
+  'settings.streamUrlInvalid': 'Eine Adresse eingeben, die mit ws:// oder wss:// beginnt',
+  'settings.profilesLink': 'Referenzbereiche ›',
+  'settings.profilesHint': 'Eigene Referenzprofile anlegen und bearbeiten',
+  'settings.profilesLinkA11y': 'Referenzbereiche bearbeiten',
+};
@@ -0,0 +1,397 @@
+/**
+ * English message catalog.
+ * This is the reference catalog: its keys define MessageKey, and every
+ * other catalog must provide the same keys. Placeholders such as {name}
+ * are replaced at runtime.
+ */
+
+export const EN_MESSAGES = {
+  // Navigation
+  'nav.index': 'CABG Metrics Input',
+  'nav.editGraft': 'Edit Graft',
+  'nav.session': 'Surgical Session',
+  'nav.results': 'Visualization Results',
+  'nav.history': 'Assessment History',
+  'nav.waveform': 'Waveform Analysis',
+  'nav.import': 'Import Measurements',
+  'nav.profiles': 'Reference Ranges',
+  'nav.settings': 'Settings',
+  'nav.comparison': 'Revision Comparison',
+  'nav.timeline': 'Measurement Timeline',
+  'nav.live': 'Live Measurements',
+  'nav.quiz': 'Training Quiz',
+  'nav.back': 'Back',
+
+  // Input screen
+  'input.title': 'Enter Metric Values',
+  'input.editTitle': 'Edit {name}',
+  'input.subtitle': 'Describe the graft and input its CABG assessment values',
+  'input.sessionLinkOne': 'Current session: {count} graft ›',
+  'input.sessionLinkOther': 'Current session: {count} grafts ›',
+  'input.sessionLinkA11y': 'Open current session',
+  'input.historyLink': 'History ›',
+  'input.historyLinkA11y': 'Open saved assessments',
+  'input.waveformLink': 'From Waveform ›',
+  'input.waveformLinkA11y': 'Compute metrics from a flow waveform',
+  'input.importLink': 'Import ›',
+  'input.importLinkA11y': 'Import measurements from a file',
+  'input.profilesLink': 'Reference Ranges ›',
+  'input.profilesLinkA11y': 'Edit reference ranges',
+  'input.settingsLink': 'Settings ›',
+  'input.settingsLinkA11y': 'Open settings',
+  'input.liveLink': 'Live ›',
+  'input.liveLinkA11y': 'Stream measurements from a live feed',
+  'input.quizLink': 'Training ›',
+  'input.quizLinkA11y': 'Practice classifying grafts',
+  'input.addGraft': 'Add Graft to Session',
+  'input.updateGraft': 'Update Graft',
+  'input.blocked': 'Correct the highlighted values to continue',
+  'input.phase': 'Measurement Phase',
+  'input.phaseNone': 'None',
+  'input.phaseHint': 'Readings saved with a phase are added to the graft’s timeline.',
+
+  // Graft details
+  'graft.conduit': 'Conduit',
+  'graft.target': 'Target Vessel',
+  'graft.profile': 'Reference Profile',
+  'graft.name': 'Graft Name',
+  'graft.nameA11y': 'Graft name input',
+  'graft.revisionOf': 'Revision Of',
+  'graft.revisionNone': 'None',
+
+  // Numeric input
+  'numericInput.a11yLabel': '{label} input',
+  'numericInput.a11yHint': 'Enter the {label} value',
+  'numericInput.a11yHintUnit': 'Enter the {label} value in {unit}',
+
+  // Input validation
+  'validation.notANumber': 'Enter a number, e.g. 12 or 2.5',
+  'validation.implausible': 'Not a plausible reading; expected {min}–{max}{unit}',
+  'validation.offScale': 'Outside the gauge scale of {min}–{max}{unit}',
+  'validation.wholeNumber': 'Usually reported as a whole number',
+  'validation.decimalsOne': 'Usually reported with {decimals} decimal place',
+  'validation.decimalsOther': 'Usually reported with {decimals} decimal places',
+
+  // Results screen
+  'results.title': 'Assessment Results',
+  'results.subtitle': 'Visual representation of entered CABG metrics',
+  'results.empty': 'No grafts in this session yet.',
+  'results.save': 'Save to History',
+  'results.saved': 'Saved ✓',
+  'results.saveFailedTitle': 'Save failed',
+  'results.saveFailedMessage': 'The assessment could not be saved on this device.',
+  'results.madeBy': 'Made with ❤️ by',
+  'results.referenceProfile': 'Reference profile: {profile}',
+
+  // Session screen
+  'session.title': 'Surgical Session',
+  'session.countOne': '{count} graft assessed',
+  'session.countOther': '{count} grafts assessed',
+  'session.empty': 'No grafts assessed yet',
+  'session.profile': 'Profile: {profile}',
+  'session.revisionOf': 'Revision of {name}',
+  'session.compare': 'Compare',
+  'session.compareA11y': 'Compare {name} before and after revision',
+  'session.edit': 'Edit',
+  'session.editA11y': 'Edit {name}',
+  'session.remove': 'Remove',
+  'session.removeA11y': 'Remove {name}',
+  'session.viewResults': 'View Results',
+  'session.addGraft': 'Add Another Graft',
+
+  // History screen
+  'history.title': 'Saved Assessments',
+  'history.subtitle': 'Assessments stored on this device, most recent first',
+  'history.empty': 'No saved assessments yet.',
+  'history.noGrafts': 'No grafts',
+  'history.open': 'Open',
+  'history.openA11y': 'Open assessment',
+  'history.duplicate': 'Duplicate',
+  'history.duplicateA11y': 'Duplicate assessment',
+  'history.delete': 'Delete',
+  'history.deleteA11y': 'Delete assessment',
+  'history.deleteTitle': 'Delete assessment?',
+  'history.deleteMessage': 'This saved assessment will be removed.',
+  'history.cancel': 'Cancel',
+  'history.unavailableTitle': 'History unavailable',
+  'history.unavailableMessage': 'Saved assessments could not be loaded.',
+  'history.duplicateFailedTitle': 'Duplicate failed',
+  'history.duplicateFailedMessage': 'The assessment could not be duplicated.',
+  'history.deleteFailedTitle': 'Delete failed',
+  'history.deleteFailedMessage': 'The assessment could not be deleted.',
+
+  // Import screen
+  'import.title': 'Import Measurements',
+  'import.subtitle': 'Load a CSV or JSON export with one row per graft',
+  'import.chooseFile': 'Choose File',
+  'import.readFailed': 'The selected file could not be read.',
+  'import.paste': 'Or paste the export content',
+  'import.pasteA11y': 'Export content input',
+  'import.parse': 'Parse',
+  'import.rowsOne': '{count} row imported ({format})',
+  'import.rowsOther': '{count} rows imported ({format})',
+  'import.file': 'File',
+  'import.row': 'Row {row}',
+  'import.fillForm': 'Fill Form',
+  'import.fillFormA11y': 'Fill form with row {row}',
+  'import.addAllOne': 'Add {count} Graft to Session',
+  'import.addAllOther': 'Add {count} Grafts to Session',
+  'import.addAllA11y': 'Add all rows to the session',
+
+  // Waveform analysis
+  'waveform.title': 'Analyze Flow Waveform',
+  'waveform.subtitle': 'Compute MF, PI, DF and BF from a sampled transit-time flow curve',
+  'waveform.samples': 'Flow Samples',
+  'waveform.samplesA11y': 'Flow samples input',
+  'waveform.rPeaks': 'R-Peak Times (optional)',
+  'waveform.rPeaksA11y': 'R-peak times input',
+  'waveform.rPeaksHint': 'Without R-peaks, Diastolic Filling cannot be computed.',
+  'waveform.analyze': 'Analyze Waveform',
+  'waveform.analysisFailed': 'Analysis failed',
+  'waveform.viewResults': 'View Results',
+  'waveformChart.title': 'Flow Waveform',
+  'waveformChart.systole': 'Systole',
+  'waveformChart.diastole': 'Diastole',
+  'waveformChart.backflow': 'Backflow',
+
+  // Reference range profiles
+  'profiles.title': 'Reference Ranges',
+  'profiles.subtitle': 'Define your institution’s thresholds as a named profile',
+  'profiles.saved': 'Saved Profiles',
+  'profiles.empty': 'No custom profiles yet.',
+  'profiles.edit': 'Edit',
+  'profiles.editA11y': 'Edit {name}',
+  'profiles.delete': 'Delete',
+  'profiles.deleteA11y': 'Delete {name}',
+  'profiles.deleteTitle': 'Delete profile?',
+  'profiles.deleteMessage': '“{name}” will be removed from this device.',
+  'profiles.cancel': 'Cancel',
+  'profiles.deleteFailedTitle': 'Delete failed',
+  'profiles.deleteFailedMessage': 'The profile could not be deleted.',
+  'profiles.savedTitle': 'Profile saved',
+  'profiles.savedMessage': '“{name}” can now be selected for grafts.',
+  'profiles.saveFailedTitle': 'Save failed',
+  'profiles.saveFailedMessage': 'The profile could not be saved.',
+  'profiles.editor': 'Edit Profile',
+  'profiles.startFrom': 'Start From',
+  'profiles.name': 'Profile Name',
+  'profiles.namePlaceholder': 'e.g. Our Hospital – Arterial',
+  'profiles.nameA11y': 'Profile name input',
+  'profiles.metric': 'Metric',
+  'profiles.previewInvalid': 'Fix the errors below to preview this range.',
+  'profiles.previewValue': 'Preview Value',
+  'profiles.scaleMin': 'Scale Minimum',
+  'profiles.scaleMax': 'Scale Maximum',
+  'profiles.otherErrorsOne': '{count} problem in other metrics',
+  'profiles.otherErrorsOther': '{count} problems in other metrics',
+  'profiles.save': 'Save Profile',
+  'profiles.reset': 'Reset to Defaults',
+  'zoneEditor.title': 'Zones',
+  'zoneEditor.titleUnit': 'Zones ({unit})',
+  'zoneEditor.startA11y': 'Zone {index} start',
+  'zoneEditor.endA11y': 'Zone {index} end',
+  'zoneEditor.typeA11y': 'Zone {index}: {zone}',
+  'zoneEditor.removeA11y': 'Remove zone {index}',
+  'zoneEditor.add': '+ Add Zone',
+  'zoneEditor.addA11y': 'Add zone',
+
+  // Gauges and summaries
+  'gauge.notMeasured': 'Not measured',
+  'gauge.aboveScale': 'Above scale maximum of {max}',
+  'gauge.belowScale': 'Below scale minimum of {min}',
+  'gauge.a11ySummary': '{metric} {value}, {zone}, {range}',
+  'gauge.a11yNotMeasured': '{metric} not measured, {range}',
+  'gauge.a11yRange': 'range {min} to {max}',
+  'gauge.a11yZoneChanged': '{metric} now in {zone}',
+  'overview.title': 'Session Overview',
+  'overview.notMeasured': '{count} not measured',
+
+  // Revision comparison
+  'comparison.title': '{name} after revision',
+  'comparison.subtitle':
+    'Compared with {before}. ▽ marks the value before revision, ▼ the value after.',
+  'comparison.notFound': 'This graft is not linked to an earlier assessment.',
+  'comparison.before': 'Before',
+  'comparison.after': 'After',
+  'comparison.improved': 'Improved',
+  'comparison.worsened': 'Worsened',
+  'comparison.unchanged': 'Same zone',
+  'comparison.a11yValues': '{metric}: before {before}, after {after}',
+  'comparison.a11yDelta': 'change {delta}',
+  'comparison.a11yZones': '{before} to {after}, {change}',
+
+  // Measurement timeline
+  'phase.onPump': 'On pump',
+  'phase.offPump': 'Off pump',
+  'phase.afterProtamine': 'After protamine',
+  'phase.afterChestClosure': 'After chest closure',
+  'timeline.title': '{metric} · {name}',
+  'timeline.subtitle': 'Readings per surgical phase over the metric’s zones',
+  'timeline.empty': 'No readings with a measurement phase for this graft yet.',
+  'timeline.link': 'Timeline ›',
+  'timeline.linkA11y': 'Show {metric} timeline',
+  'timeline.a11yChart': '{metric} by phase: {points}',
+  'timeline.a11yPoint': '{phase} {value}',
+
+  // Live streaming
+  'live.title': 'Live Measurements',
+  'live.subtitle': 'Gauges follow the feed at {url}',
+  'live.connect': 'Connect',
+  'live.disconnect': 'Disconnect',
+  'live.lastFrame': 'Last update {time}',
+  'live.invalidUrl': 'Set a ws:// or wss:// feed address in Settings ›',
+  'liveStatus.connecting': 'Connecting…',
+  'liveStatus.open': 'Connected',
+  'liveStatus.reconnecting': 'Connection lost · retrying in {seconds} s',
+  'liveStatus.closed': 'Disconnected',
+
+  // Training quiz
+  'scenario.goodGraft': 'Good graft',
+  'scenario.competitiveFlow': 'Competitive flow',
+  'scenario.kinkedGraft': 'Kinked graft',
+  'scenario.poorCoupling': 'Poor probe coupling',
+  'scenarioExplanation.goodGraft':
+    'Adequate mean flow with low pulsatility, diastolic-dominant filling and little backflow, measured with good acoustic coupling.',
+  'scenarioExplanation.competitiveFlow':
+    'Mean flow is preserved, but marked backflow and raised pulsatility show the native vessel competing with the graft.',
+  'scenarioExplanation.kinkedGraft':
+    'Very low, systolic-dominant flow with high pulsatility points to a mechanical obstruction such as a kink or a faulty anastomosis.',
+  'scenarioExplanation.poorCoupling':
+    'The acoustic coupling index is low, so the readings cannot be trusted however normal they look. Improve probe contact and repeat.',
+  'quiz.title': 'Classify the Graft',
+  'quiz.subtitle':
+    'Read the measurements and pick the scenario they fit. The gauges are revealed once you answer.',
+  'quiz.question': 'Which scenario is this?',
+  'quiz.correct': 'Correct',
+  'quiz.incorrect': 'Not quite: this was {scenario}',
+  'quiz.next': 'Next Case',
+  'quiz.progress': 'Your Progress',
+  'quiz.noAnswers': 'Answer a case to start tracking your score.',
+  'quiz.score': '{correct} of {total} correct ({percent}%)',
+  'quiz.recent': 'Last {count} cases: {percent}%',
+  'quiz.streak': 'Current streak: {count}',
+  'quiz.scenarioScore': '{correct}/{total}',
+  'quiz.reset': 'Reset Scores',
+  'quiz.resetTitle': 'Reset scores?',
+  'quiz.resetMessage': 'Your recorded answers will be deleted.',
+  'quiz.cancel': 'Cancel',
+  'quiz.resetConfirm': 'Reset',
+
+  // Interpretation
+  'verdict.title': 'Interpretation',
+  'verdict.none': 'No concerns found',
+  'verdict.info': 'Acceptable, with notes',
+  'verdict.caution': 'Review recommended',
+  'verdict.critical': 'Revision should be considered',
+  'verdict.basedOn': 'Based on {metrics}',
+  'severity.info': 'Note',
+  'severity.caution': 'Caution',
+  'severity.critical': 'Critical',
+  'rule.unreliable-measurement':
+    'Acoustic coupling is poor, so the measurement is unreliable. Improve probe contact and repeat.',
+  'rule.technical-problem':
+    'Low flow with high pulsatility suggests a technical problem at the anastomosis. Consider revision.',
+  'rule.competitive-flow':
+    'Backflow with raised pulsatility may indicate competitive native flow or a distal stenosis.',
+  'rule.small-runoff':
+    'Low flow with normal pulsatility may reflect a small run-off territory rather than a graft problem.',
+  'rule.systolic-dominant':
+    'Flow is predominantly systolic. Check for graft kinking or competitive flow.',
+  'rule.low-pressure':
+    'Low arterial pressure reduces graft flow. Re-measure once MAP is restored.',
+  'rule.missing-mean-flow': 'Mean Flow was not measured, so the interpretation is incomplete.',
+  'rule.missing-pulsatility':
+    'Pulsatility Index was not measured, so the interpretation is incomplete.',
+
+  // Metrics
+  'metric.MF': 'Mean Flow',
+  'metric.PI': 'Pulsatility Index',
+  'metric.DF': 'Diastolic Filling',
+  'metric.BF': 'Backflow',
+  'metric.ACI': 'Acoustic Coupling',
+  'metric.MAP': 'Mean Arterial Pressure',
+
+  // Built-in reference profiles
+  'profile.general': 'General',
+  'profile.arterial-LAD': 'Arterial → LAD',
+  'profile.arterial-other': 'Arterial → CX/RCA',
+  'profile.venous-LAD': 'Venous → LAD',
+  'profile.venous-RCA': 'Venous → RCA/CX',
+  'profile.sequential': 'Sequential',
+
+  // Conduits and target vessels
+  'conduit.LIMA': 'Left Internal Mammary Artery',
+  'conduit.RIMA': 'Right Internal Mammary Artery',
+  'conduit.SVG': 'Saphenous Vein Graft',
+  'conduit.RA': 'Radial Artery',
+  'conduit.GEA': 'Gastroepiploic Artery',
+  'target.LAD': 'Left Anterior Descending',
+  'target.D1': 'First Diagonal',
+  'target.D2': 'Second Diagonal',
+  'target.RI': 'Ramus Intermedius',
+  'target.OM1': 'First Obtuse Marginal',
+  'target.OM2': 'Second Obtuse Marginal',
+  'target.RCA': 'Right Coronary Artery',
+  'target.PDA': 'Posterior Descending Artery',
+  'target.PLB': 'Posterolateral Branch',
+
+  // Zones and gauge scales
+  'zone.green': 'optimal zone',
+  'zone.yellow': 'borderline zone',
+  'zone.red': 'poor zone',
+  'zoneEncoding.color': 'Color',
+  'zoneEncoding.colorSafe': 'Color-blind safe',
+  'gaugeVariant.arc': 'Segmented arc',
+  'gaugeVariant.needle': 'Needle',
+  'scaleMode.fixed': 'Fixed',
+  'scaleMode.extend': 'Extend to fit',
+
+  // Spoken units
+  'unit.mL/min': 'millilitres per minute',
+  'unit.L/min': 'litres per minute',
+  'unit.mmHg': 'millimetres of mercury',
+  'unit.kPa': 'kilopascals',
+  'unit.%': 'percent',
+
+  // Themes
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.highContrast': 'High contrast',
+
+  // Settings screen
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Preferences are stored on this device',
+  'settings.language': 'Language',
+  'settings.languageHint':
+    'Also sets the decimal mark used when entering and displaying values.',
+  'settings.system': 'System',
+  'settings.theme': 'Appearance',
+  'settings.themeHint':
+    'Dark and high-contrast themes stay legible in a dimmed operating room.',
+  'settings.zoneEncoding': 'Zone Display',
+  'settings.zoneEncodingHint':
+    'Color-blind safe uses blue, orange and vermillion, hatches borderline and poor zones on the gauge and shows ✓, ! or ✕ next to each value.',
+  'settings.gaugeVariant': 'Gauge Style',
+  'settings.gaugeVariantHint':
+    'The segmented arc fills up to the value; the needle style points at it across the zones.',
+  'settings.scaleMode': 'Gauge Scale',
+  'settings.scaleModeHint':
+    'Values beyond the reference scale are marked with an arrow. Extend to fit grows the scale so the value is drawn where it lies.',
+  'settings.units': 'Units',
+  'settings.unitsHint':
+    'Values are entered and displayed in the selected unit. Saved assessments are not affected.',
+  'settings.streamUrl': 'Live Feed',
+  'settings.streamUrlHint':
+    'WebSocket address the live screen streams measurements from, e.g. ws://192.168.1.20:8080.',
+  'settings.streamUrlA11y': 'Live feed address',
+  'settings.streamUrlInvalid': 'Enter an address starting with ws:// or wss://',
+  'settings.profilesLink': 'Reference Ranges ›',
+  'settings.profilesHint': 'Create and edit custom reference range profiles',
+  'settings.profilesLinkA11y': 'Edit reference ranges',
+};
+
+/** Key of a translatable message */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/** A complete message catalog for one language */
+export type MessageCatalog = Readonly<Record<MessageKey, string>>;
@@ -0,0 +1,390 @@
+/**
+ * Italian message catalog.
+ */
+
+import { MessageCatalog } from './en';
+
+export const IT_MESSAGES: MessageCatalog = {
+  // Navigation
+  'nav.index': 'Inserimento parametri CABG',
+  'nav.editGraft': 'Modifica graft',
+  'nav.session': 'Sessione chirurgica',
+  'nav.results': 'Risultati',
+  'nav.history': 'Storico valutazioni',
+  'nav.waveform': 'Analisi della curva',
+  'nav.import': 'Importa misurazioni',
+  'nav.profiles': 'Intervalli di riferimento',
+  'nav.settings': 'Impostazioni',
+  'nav.comparison': 'Confronto revisione',
+  'nav.timeline': 'Andamento delle misure',
+  'nav.live': 'Misure in tempo reale',
+  'nav.quiz': 'Quiz di formazione',
+  'nav.back': 'Indietro',
+
+  // Input screen
+  'input.title': 'Inserisci i valori',
+  'input.editTitle': 'Modifica {name}',
+  'input.subtitle': 'Descrivi il graft e inserisci i parametri della valutazione CABG',
+  'input.sessionLinkOne': 'Sessione corrente: {count} graft ›',
+  'input.sessionLinkOther': 'Sessione corrente: {count} graft ›',
+  'input.sessionLinkA11y': 'Apri la sessione corrente',
+  'input.historyLink': 'Storico ›',
+  'input.historyLinkA11y': 'Apri le valutazioni salvate',
+  'input.waveformLink': 'Da curva di flusso ›',
+  'input.waveformLinkA11y': 'Calcola i parametri da una curva di flusso',
+  'input.importLink': 'Importa ›',
+  'input.importLinkA11y': 'Importa misurazioni da un file',
+  'input.profilesLink': 'Intervalli di riferimento ›',
+  'input.profilesLinkA11y': 'Modifica gli intervalli di riferimento',
+  'input.settingsLink': 'Impostazioni ›',
+  'input.settingsLinkA11y': 'Apri le impostazioni',
+  'input.liveLink': 'Live ›',
+  'input.liveLinkA11y': 'Ricevi misure da un flusso in tempo reale',
+  'input.quizLink': 'Formazione ›',
+  'input.quizLinkA11y': 'Esercitati a classificare i graft',
+  'input.addGraft': 'Aggiungi graft alla sessione',
+  'input.updateGraft': 'Aggiorna graft',
+  'input.blocked': 'Correggi i valori evidenziati per continuare',
+  'input.phase': 'Fase della misura',
+  'input.phaseNone': 'Nessuna',
+  'input.phaseHint': 'Le misure salvate con una fase vengono aggiunte all’andamento del graft.',
+
+  // Graft details
+  'graft.conduit': 'Condotto',
+  'graft.target': 'Vaso bersaglio',
+  'graft.profile': 'Profilo di riferimento',
+  'graft.name': 'Nome del graft',
+  'graft.nameA11y': 'Campo nome del graft',
+  'graft.revisionOf': 'Revisione di',
+  'graft.revisionNone': 'Nessuna',
+
+  // Numeric input
+  'numericInput.a11yLabel': 'Campo {label}',
+  'numericInput.a11yHint': 'Inserisci il valore di {label}',
+  'numericInput.a11yHintUnit': 'Inserisci il valore di {label} in {unit}',
+
+  // Input validation
+  'validation.notANumber': 'Inserisci un numero, ad es. 12 o 2,5',
+  'validation.implausible': 'Lettura non plausibile; atteso {min}–{max}{unit}',
+  'validation.offScale': 'Fuori dalla scala dell’indicatore ({min}–{max}{unit})',
+  'validation.wholeNumber': 'Di solito indicato come numero intero',
+  'validation.decimalsOne': 'Di solito indicato con {decimals} decimale',
+  'validation.decimalsOther': 'Di solito indicato con {decimals} decimali',
+
+  // Results screen
+  'results.title': 'Risultati della valutazione',
+  'results.subtitle': 'Rappresentazione grafica dei parametri CABG inseriti',
+  'results.empty': 'Nessun graft in questa sessione.',
+  'results.save': 'Salva nello storico',
+  'results.saved': 'Salvato ✓',
+  'results.saveFailedTitle': 'Salvataggio non riuscito',
+  'results.saveFailedMessage': 'Non è stato possibile salvare la valutazione sul dispositivo.',
+  'results.madeBy': 'Realizzato con ❤️ da',
+  'results.referenceProfile': 'Profilo di riferimento: {profile}',
+
+  // Session screen
+  'session.title': 'Sessione chirurgica',
+  'session.countOne': '{count} graft valutato',
+  'session.countOther': '{count} graft valutati',
+  'session.empty': 'Nessun graft ancora valutato',
+  'session.profile': 'Profilo: {profile}',
+  'session.revisionOf': 'Revisione di {name}',
+  'session.compare': 'Confronta',
+  'session.compareA11y': 'Confronta {name} prima e dopo la revisione',
+  'session.edit': 'Modifica',
+  'session.editA11y': 'Modifica {name}',
+  'session.remove': 'Rimuovi',
+  'session.removeA11y': 'Rimuovi {name}',
+  'session.viewResults': 'Mostra risultati',
+  'session.addGraft': 'Aggiungi un altro graft',
+
+  // History screen
+  'history.title': 'Valutazioni salvate',
+  'history.subtitle': 'Valutazioni memorizzate su questo dispositivo, dalla più recente',
+  'history.empty': 'Nessuna valutazione salvata.',
+  'history.noGrafts': 'Nessun graft',
+  'history.open': 'Apri',
+  'history.openA11y': 'Apri la valutazione',
+  'history.duplicate': 'Duplica',
+  'history.duplicateA11y': 'Duplica la valutazione',
+  'history.delete': 'Elimina',
+  'history.deleteA11y': 'Elimina la valutazione',
+  'history.deleteTitle': 'Eliminare la valutazione?',
+  'history.deleteMessage': 'Questa valutazione salvata verrà rimossa.',
+  'history.cancel': 'Annulla',
+  'history.unavailableTitle': 'Storico non disponibile',
+  'history.unavailableMessage': 'Non è stato possibile caricare le valutazioni salvate.',
+  'history.duplicateFailedTitle': 'Duplicazione non riuscita',
+  'history.duplicateFailedMessage': 'Non è stato possibile duplicare la valutazione.',
+  'history.deleteFailedTitle': 'Eliminazione non riuscita',
+  'history.deleteFailedMessage': 'Non è stato possibile eliminare la valutazione.',
+
+  // Import screen
+  'import.title': 'Importa misurazioni',
+  'import.subtitle': 'Carica un’esportazione CSV o JSON con una riga per graft',
+  'import.chooseFile': 'Scegli file',
+  'import.readFailed': 'Non è stato possibile leggere il file selezionato.',
+  'import.paste': 'Oppure incolla il contenuto esportato',
+  'import.pasteA11y': 'Campo contenuto esportato',
+  'import.parse': 'Analizza',
+  'import.rowsOne': '{count} riga importata ({format})',
+  'import.rowsOther': '{count} righe importate ({format})',
+  'import.file': 'File',
+  'import.row': 'Riga {row}',
+  'import.fillForm': 'Compila modulo',
+  'import.fillFormA11y': 'Compila il modulo con la riga {row}',
+  'import.addAllOne': 'Aggiungi {count} graft alla sessione',
+  'import.addAllOther': 'Aggiungi {count} graft alla sessione',
+  'import.addAllA11y': 'Aggiungi tutte le righe alla sessione',
+
+  // Waveform analysis
+  'waveform.title': 'Analizza la curva di flusso',
+  'waveform.subtitle':
+    'Calcola MF, PI, DF e BF da una curva di flusso a tempo di transito campionata',
+  'waveform.samples': 'Campioni di flusso',
+  'waveform.samplesA11y': 'Campo campioni di flusso',
+  'waveform.rPeaks': 'Tempi dei picchi R (facoltativo)',
+  'waveform.rPeaksA11y': 'Campo tempi dei picchi R',
+  'waveform.rPeaksHint': 'Senza picchi R il riempimento diastolico non può essere calcolato.',
+  'waveform.analyze': 'Analizza la curva',
+  'waveform.analysisFailed': 'Analisi non riuscita',
+  'waveform.viewResults': 'Mostra risultati',
+  'waveformChart.title': 'Curva di flusso',
+  'waveformChart.systole': 'Sistole',
+  'waveformChart.diastole': 'Diastole',
+  'waveformChart.backflow': 'Reflusso',
+
+  // Reference range profiles
+  'profiles.title': 'Intervalli di riferimento',
+  'profiles.subtitle': 'Definisci le soglie del tuo centro come profilo con nome',
+  'profiles.saved': 'Profili salvati',
+  'profiles.empty': 'Nessun profilo personalizzato.',
+  'profiles.edit': 'Modifica',
+  'profiles.editA11y': 'Modifica {name}',
+  'profiles.delete': 'Elimina',
+  'profiles.deleteA11y': 'Elimina {name}',
+  'profiles.deleteTitle': 'Eliminare il profilo?',
+  'profiles.deleteMessage': '«{name}» verrà rimosso da questo dispositivo.',
+  'profiles.cancel': 'Annulla',
+  'profiles.deleteFailedTitle': 'Eliminazione non riuscita',
+  'profiles.deleteFailedMessage': 'Non è stato possibile eliminare il profilo.',
+  'profiles.savedTitle': 'Profilo salvato',
+  'profiles.savedMessage': '«{name}» può ora essere scelto per i graft.',
+  'profiles.saveFailedTitle': 'Salvataggio non riuscito',
+  'profiles.saveFailedMessage': 'Non è stato possibile salvare il profilo.',
+  'profiles.editor': 'Modifica profilo',
+  'profiles.startFrom': 'Parti da',
+  'profiles.name': 'Nome del profilo',
+  'profiles.namePlaceholder': 'es. Il nostro ospedale – Arterioso',
+  'profiles.nameA11y': 'Campo nome del profilo',
+  'profiles.metric': 'Parametro',
+  'profiles.previewInvalid': 'Correggi gli errori qui sotto per vedere l’anteprima.',
+  'profiles.previewValue': 'Valore di anteprima',
+  'profiles.scaleMin': 'Minimo della scala',
+  'profiles.scaleMax': 'Massimo della scala',
+  'profiles.otherErrorsOne': '{count} problema in altri parametri',
+  'profiles.otherErrorsOther': '{count} problemi in altri parametri',
+  'profiles.save': 'Salva profilo',
+  'profiles.reset': 'Ripristina predefiniti',
+  'zoneEditor.title': 'Zone',
+  'zoneEditor.titleUnit': 'Zone ({unit})',
+  'zoneEditor.startA11y': 'Inizio zona {index}',
+  'zoneEditor.endA11y': 'Fine zona {index}',
+  'zoneEditor.typeA11y': 'Zona {index}: {zone}',
+  'zoneEditor.removeA11y': 'Rimuovi zona {index}',
+  'zoneEditor.add': '+ Aggiungi zona',
+  'zoneEditor.addA11y': 'Aggiungi zona',
+
+  // Gauges and summaries
+  'gauge.notMeasured': 'Non misurato',
+  'gauge.aboveScale': 'Sopra il massimo della scala ({max})',
+  'gauge.belowScale': 'Sotto il minimo della scala ({min})',
+  'gauge.a11ySummary': '{metric} {value}, {zone}, {range}',
+  'gauge.a11yNotMeasured': '{metric} non misurato, {range}',
+  'gauge.a11yRange': 'intervallo da {min} a {max}',
+  'gauge.a11yZoneChanged': '{metric} ora in {zone}',
+  'overview.title': 'Riepilogo della sessione',
+  'overview.notMeasured': '{count} non misurati',
+
+  // Revision comparison
+  'comparison.title': '{name} dopo la revisione',
+  'comparison.subtitle':
+    'Confronto con {before}. ▽ indica il valore prima della revisione, ▼ quello dopo.',
+  'comparison.notFound': 'Questo graft non è collegato a una valutazione precedente.',
+  'comparison.before': 'Prima',
+  'comparison.after': 'Dopo',
+  'comparison.improved': 'Migliorato',
+  'comparison.worsened': 'Peggiorato',
+  'comparison.unchanged': 'Stessa zona',
+  'comparison.a11yValues': '{metric}: prima {before}, dopo {after}',
+  'comparison.a11yDelta': 'variazione {delta}',
+  'comparison.a11yZones': 'da {before} a {after}, {change}',
+
+  // Measurement timeline
+  'phase.onPump': 'In CEC',
+  'phase.offPump': 'Dopo CEC',
+  'phase.afterProtamine': 'Dopo protamina',
+  'phase.afterChestClosure': 'Dopo chiusura sternale',
+  'timeline.title': '{metric} · {name}',
+  'timeline.subtitle': 'Misure per fase chirurgica sulle zone della metrica',
+  'timeline.empty': 'Nessuna misura con fase per questo graft.',
+  'timeline.link': 'Andamento ›',
+  'timeline.linkA11y': 'Mostra andamento di {metric}',
+  'timeline.a11yChart': '{metric} per fase: {points}',
+  'timeline.a11yPoint': '{phase} {value}',
+
+  // Live streaming
+  'live.title': 'Misure in tempo reale',
+  'live.subtitle': 'Gli indicatori seguono il flusso da {url}',
+  'live.connect': 'Connetti',
+  'live.disconnect': 'Disconnetti',
+  'live.lastFrame': 'Ultimo aggiornamento {time}',
+  'live.invalidUrl': 'Imposta un indirizzo ws:// o wss:// nelle Impostazioni ›',
+  'liveStatus.connecting': 'Connessione…',
+  'liveStatus.open': 'Connesso',
+  'liveStatus.reconnecting': 'Connessione persa · nuovo tentativo tra {seconds} s',
+  'liveStatus.closed': 'Disconnesso',
+
+  // Training quiz
+  'scenario.goodGraft': 'Graft funzionante',
+  'scenario.competitiveFlow': 'Flusso competitivo',
+  'scenario.kinkedGraft': 'Graft inginocchiato',
+  'scenario.poorCoupling': 'Scarso accoppiamento della sonda',
+  'scenarioExplanation.goodGraft':
+    'Flusso medio adeguato con bassa pulsatilità, riempimento prevalentemente diastolico e poco reflusso, misurato con buon accoppiamento acustico.',
+  'scenarioExplanation.competitiveFlow':
+    'Il flusso medio è conservato, ma il reflusso marcato e la pulsatilità elevata indicano che il vaso nativo compete con il graft.',
+  'scenarioExplanation.kinkedGraft':
+    'Un flusso molto basso, prevalentemente sistolico, con pulsatilità elevata indica un’ostruzione meccanica come un inginocchiamento o un’anastomosi difettosa.',
+  'scenarioExplanation.poorCoupling':
+    'L’indice di accoppiamento acustico è basso, quindi le misure non sono affidabili per quanto sembrino normali. Migliora il contatto della sonda e ripeti.',
+  'quiz.title': 'Classifica il graft',
+  'quiz.subtitle':
+    'Leggi le misure e scegli lo scenario a cui corrispondono. Gli indicatori compaiono dopo la risposta.',
+  'quiz.question': 'Di quale scenario si tratta?',
+  'quiz.correct': 'Corretto',
+  'quiz.incorrect': 'Non esatto: era {scenario}',
+  'quiz.next': 'Caso successivo',
+  'quiz.progress': 'I tuoi progressi',
+  'quiz.noAnswers': 'Rispondi a un caso per iniziare a registrare il punteggio.',
+  'quiz.score': '{correct} su {total} corrette ({percent}%)',
+  'quiz.recent': 'Ultimi {count} casi: {percent}%',
+  'quiz.streak': 'Serie attuale: {count}',
+  'quiz.scenarioScore': '{correct}/{total}',
+  'quiz.reset': 'Azzera punteggi',
+  'quiz.resetTitle': 'Azzerare i punteggi?',
+  'quiz.resetMessage': 'Le risposte registrate verranno eliminate.',
+  'quiz.cancel': 'Annulla',
+  'quiz.resetConfirm': 'Azzera',
+
+  // Interpretation
+  'verdict.title': 'Interpretazione',
+  'verdict.none': 'Nessuna criticità rilevata',
+  'verdict.info': 'Accettabile, con note',
+  'verdict.caution': 'Revisione consigliata',
+  'verdict.critical': 'Valutare la revisione del graft',
+  'verdict.basedOn': 'In base a {metrics}',
+  'severity.info': 'Nota',
+  'severity.caution': 'Attenzione',
+  'severity.critical': 'Critico',
+  'rule.unreliable-measurement':
+    'Accoppiamento acustico scarso: la misurazione non è affidabile. Migliora il contatto della sonda e ripeti.',
+  'rule.technical-problem':
+    'Flusso basso con pulsatilità elevata: possibile problema tecnico dell’anastomosi. Valutare la revisione.',
+  'rule.competitive-flow':
+    'Reflusso con pulsatilità aumentata: possibile flusso nativo competitivo o stenosi distale.',
+  'rule.small-runoff':
+    'Flusso basso con pulsatilità normale: può dipendere da un territorio di run-off ridotto più che dal graft.',
+  'rule.systolic-dominant':
+    'Flusso prevalentemente sistolico. Verificare inginocchiamenti del graft o flusso competitivo.',
+  'rule.low-pressure':
+    'La pressione arteriosa bassa riduce il flusso nel graft. Ripetere la misura dopo averla ripristinata.',
+  'rule.missing-mean-flow': 'Flusso medio non misurato: l’interpretazione è incompleta.',
+  'rule.missing-pulsatility': 'Indice di pulsatilità non misurato: l’interpretazione è incompleta.',
+
+  // Metrics
+  'metric.MF': 'Flusso medio',
+  'metric.PI': 'Indice di pulsatilità',
+  'metric.DF': 'Riempimento diastolico',
+  'metric.BF': 'Reflusso',
+  'metric.ACI': 'Accoppiamento acustico',
+  'metric.MAP': 'Pressione arteriosa media',
+
+  // Built-in reference profiles
+  'profile.general': 'Generale',
+  'profile.arterial-LAD': 'Arterioso → IVA',
+  'profile.arterial-other': 'Arterioso → CX/CDx',
+  'profile.venous-LAD': 'Venoso → IVA',
+  'profile.venous-RCA': 'Venoso → CDx/CX',
+  'profile.sequential': 'Sequenziale',
+
+  // Conduits and target vessels
+  'conduit.LIMA': 'Arteria mammaria interna sinistra',
+  'conduit.RIMA': 'Arteria mammaria interna destra',
+  'conduit.SVG': 'Vena safena',
+  'conduit.RA': 'Arteria radiale',
+  'conduit.GEA': 'Arteria gastroepiploica',
+  'target.LAD': 'Interventricolare anteriore',
+  'target.D1': 'Prima diagonale',
+  'target.D2': 'Seconda diagonale',
+  'target.RI': 'Ramo intermedio',
+  'target.OM1': 'Primo ramo marginale ottuso',
+  'target.OM2': 'Secondo ramo marginale ottuso',
+  'target.RCA': 'Coronaria destra',
+  'target.PDA': 'Interventricolare posteriore',
+  'target.PLB': 'Ramo posterolaterale',
+
+  // Zones and gauge scales
+  'zone.green': 'zona ottimale',
+  'zone.yellow': 'zona limite',
+  'zone.red': 'zona critica',
+  'zoneEncoding.color': 'Colore',
+  'zoneEncoding.colorSafe': 'Adatta ai daltonici',
+  'gaugeVariant.arc': 'Arco segmentato',
+  'gaugeVariant.needle': 'Lancetta',
+  'scaleMode.fixed': 'Fissa',
+  'scaleMode.extend': 'Estendi al valore',
+
+  // Spoken units
+  'unit.mL/min': 'millilitri al minuto',
+  'unit.L/min': 'litri al minuto',
+  'unit.mmHg': 'millimetri di mercurio',
+  'unit.kPa': 'kilopascal',
+  'unit.%': 'percento',
+
+  // Themes
+  'theme.light': 'Chiaro',
+  'theme.dark': 'Scuro',
+  'theme.highContrast': 'Alto contrasto',
+
+  // Settings screen
+  'settings.title': 'Impostazioni',
+  'settings.subtitle': 'Le preferenze sono salvate su questo dispositivo',
+  'settings.language': 'Lingua',
+  'settings.languageHint':
+    'Determina anche il separatore decimale usato per inserire e mostrare i valori.',
+  'settings.system': 'Sistema',
+  'settings.theme': 'Aspetto',
+  'settings.themeHint':
+    'I temi scuro e ad alto contrasto restano leggibili in sala operatoria con luci soffuse.',
+  'settings.zoneEncoding': 'Visualizzazione delle zone',
+  'settings.zoneEncodingHint':
+    'La modalità per daltonici usa blu, arancione e vermiglio, tratteggia le zone limite e critiche sull’indicatore e mostra ✓, ! o ✕ accanto a ogni valore.',
+  'settings.gaugeVariant': 'Stile degli indicatori',
+  'settings.gaugeVariantHint':
+    'L’arco segmentato si riempie fino al valore; la lancetta lo indica sopra le zone.',
+  'settings.scaleMode': 'Scala degli indicatori',
+  'settings.scaleModeHint':
+    'I valori oltre la scala di riferimento sono segnalati da una freccia. Con «Estendi al valore» la scala si allarga per mostrare il valore nella sua posizione.',
+  'settings.units': 'Unità di misura',
+  'settings.unitsHint':
+    'I valori vengono inseriti e mostrati nell’unità selezionata. Le valutazioni salvate non cambiano.',
+  'settings.streamUrl': 'Flusso in tempo reale',
+  'settings.streamUrlHint':
+    'Indirizzo WebSocket da cui la schermata Live riceve le misure, ad es. ws://192.168.1.20:8080.',
+  'settings.streamUrlA11y': 'Indirizzo del flusso in tempo reale',
+  'settings.streamUrlInvalid': 'Inserisci un indirizzo che inizia con ws:// o wss://',
+  'settings.profilesLink': 'Intervalli di riferimento ›',
+  'settings.profilesHint': 'Crea e modifica profili di riferimento personalizzati',
+  'settings.profilesLinkA11y': 'Modifica gli intervalli di riferimento',
+};
@@ -6,11 +6,23 @@
  * Real clinical thresholds would come from validated medical guidelines.
  */
 
-import { ReferenceRanges } from '../types/metrics';
+import {
+  ConduitType,
+  MetricKey,
+  MetricRange,
+  ReferenceProfile,
+  ReferenceProfileId,
+  ReferenceRanges,
+  TargetVessel,
+  ZoneType,
+} from '../types/metrics';
+import { CONDUIT_INFO, TARGET_VESSEL_INFO } from './grafts';
+import { assertValidReferenceProfile } from '../utils/rangeValidation';
 
 /**
  * Complete reference range definitions for all supported metrics.
- * Each metric includes min/max display range, unit, label, and color zones.
+ * Each metric includes min/max display range, unit, label, color zones
+ * and the input validation rules.
  */
 export const REFERENCE_RANGES: ReferenceRanges = {
   /**
@@ -28,6 +40,9 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 15, end: 30, type: 'yellow' },
       { start: 30, end: 200, type: 'green' },
     ],
+    validation: { plausibleMin: -50, plausibleMax: 1000, decimals: 0 },
+    // Zones take equal thirds so the critical 0–30 region stays readable
+    scaleType: 'piecewise',
   },
 
   /**
@@ -45,6 +60,7 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 3, end: 5, type: 'yellow' },
       { start: 5, end: 10, type: 'red' },
     ],
+    validation: { plausibleMin: 0, plausibleMax: 50, decimals: 1 },
   },
 
   /**
@@ -62,6 +78,7 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 50, end: 70, type: 'yellow' },
       { start: 70, end: 100, type: 'green' },
     ],
+    validation: { plausibleMin: 0, plausibleMax: 100, decimals: 0 },
   },
 
   /**
@@ -79,6 +96,7 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 3, end: 10, type: 'yellow' },
       { start: 10, end: 50, type: 'red' },
     ],
+    validation: { plausibleMin: 0, plausibleMax: 100, decimals: 1 },
   },
 
   /**
@@ -96,6 +114,7 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 50, end: 80, type: 'yellow' },
       { start: 80, end: 100, type: 'green' },
     ],
+    validation: { plausibleMin: 0, plausibleMax: 100, decimals: 0 },
   },
 
   /**
@@ -115,18 +134,209 @@ export const REFERENCE_RANGES: ReferenceRanges = {
       { start: 105, end: 120, type: 'yellow' },
       { start: 120, end: 200, type: 'red' },
     ],
+    validation: { plausibleMin: 20, plausibleMax: 250, decimals: 0 },
   },
 } as const;
 
 /**
- * Get the zone type for a given value within a metric's range.
+ * Builds a complete range table by overriding selected metrics
+ * of the general-purpose REFERENCE_RANGES.
+ */
+const withOverrides = (
+  overrides: Partial<Record<MetricKey, MetricRange>>
+): ReferenceRanges => ({ ...REFERENCE_RANGES, ...overrides });
+
+/** Profile used when none is selected */
+export const DEFAULT_PROFILE_ID: ReferenceProfileId = 'general';
+
+/**
+ * Built-in reference profiles.
+ * Acceptable MF and PI differ between arterial and venous conduits and
+ * between target territories; the remaining metrics share the general ranges.
+ */
+export const REFERENCE_PROFILES: readonly ReferenceProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    label: 'General',
+    description: 'Conduit-independent ranges',
+    ranges: REFERENCE_RANGES,
+  },
+  {
+    id: 'arterial-LAD',
+    label: 'Arterial → LAD',
+    description: 'Internal mammary or radial artery to the LAD territory',
+    ranges: withOverrides({
+      MF: {
+        ...REFERENCE_RANGES.MF,
+        max: 150,
+        zones: [
+          { start: 0, end: 15, type: 'red' },
+          { start: 15, end: 25, type: 'yellow' },
+          { start: 25, end: 150, type: 'green' },
+        ],
+      },
+    }),
+  },
+  {
+    id: 'arterial-other',
+    label: 'Arterial → CX/RCA',
+    description: 'Arterial conduit to the circumflex or right territory',
+    ranges: withOverrides({
+      MF: {
+        ...REFERENCE_RANGES.MF,
+        max: 150,
+        zones: [
+          { start: 0, end: 10, type: 'red' },
+          { start: 10, end: 20, type: 'yellow' },
+          { start: 20, end: 150, type: 'green' },
+        ],
+      },
+      PI: {
+        ...REFERENCE_RANGES.PI,
+        zones: [
+          { start: 0, end: 3.5, type: 'green' },
+          { start: 3.5, end: 5, type: 'yellow' },
+          { start: 5, end: 10, type: 'red' },
+        ],
+      },
+    }),
+  },
+  {
+    id: 'venous-LAD',
+    label: 'Venous → LAD',
+    description: 'Saphenous vein graft to the LAD territory',
+    ranges: withOverrides({
+      MF: {
+        ...REFERENCE_RANGES.MF,
+        zones: [
+          { start: 0, end: 20, type: 'red' },
+          { start: 20, end: 40, type: 'yellow' },
+          { start: 40, end: 200, type: 'green' },
+        ],
+      },
+    }),
+  },
+  {
+    id: 'venous-RCA',
+    label: 'Venous → RCA/CX',
+    description: 'Saphenous vein graft to the right or circumflex territory',
+    ranges: withOverrides({
+      MF: {
+        ...REFERENCE_RANGES.MF,
+        zones: [
+          { start: 0, end: 20, type: 'red' },
+          { start: 20, end: 35, type: 'yellow' },
+          { start: 35, end: 200, type: 'green' },
+        ],
+      },
+    }),
+  },
+  {
+    id: 'sequential',
+    label: 'Sequential',
+    description: 'Sequential graft supplying several distal anastomoses',
+    ranges: withOverrides({
+      MF: {
+        ...REFERENCE_RANGES.MF,
+        zones: [
+          { start: 0, end: 25, type: 'red' },
+          { start: 25, end: 45, type: 'yellow' },
+          { start: 45, end: 200, type: 'green' },
+        ],
+      },
+      PI: {
+        ...REFERENCE_RANGES.PI,
+        zones: [
+          { start: 0, end: 2.5, type: 'green' },
+          { start: 2.5, end: 4, type: 'yellow' },
+          { start: 4, end: 10, type: 'red' },
+        ],
+      },
+    }),
+  },
+];
+
+// Built-in ranges are checked once at startup so a broken edit fails fast
+REFERENCE_PROFILES.forEach((profile) => assertValidReferenceProfile(profile));
+
+/** Profiles registered at runtime, keyed by ID */
+const customProfiles = new Map<ReferenceProfileId, ReferenceProfile>();
+
+/**
+ * Registers an additional profile, replacing any custom profile with the same ID.
+ * Built-in profiles cannot be replaced, and profiles whose ranges fail
+ * validation are rejected with a ReferenceRangeError.
+ */
+export const registerReferenceProfile = (profile: ReferenceProfile): void => {
+  if (isBuiltInProfile(profile.id)) {
+    throw new Error(`Cannot replace built-in reference profile '${profile.id}'`);
+  }
+  assertValidReferenceProfile(profile);
+  customProfiles.set(profile.id, profile);
+};
+
+/**
+ * Removes a custom profile. Grafts still referring to it fall back
+ * to the default profile.
+ */
+export const unregisterReferenceProfile = (profileId: ReferenceProfileId): void => {
+  customProfiles.delete(profileId);
+};
+
+/**
+ * Checks whether a profile ID belongs to a built-in profile.
+ */
+export const isBuiltInProfile = (profileId: ReferenceProfileId): boolean =>
+  REFERENCE_PROFILES.some((profile) => profile.id === profileId);
+
+/**
+ * Returns all available profiles, built-in ones first.
+ */
+export const getReferenceProfiles = (): readonly ReferenceProfile[] => [
+  ...REFERENCE_PROFILES,
+  ...customProfiles.values(),
+];
+
+/**
+ * Looks up a profile by ID.
+ * Unknown IDs fall back to the default profile so stale references still render.
+ */
+export const getReferenceProfile = (
+  profileId: ReferenceProfileId = DEFAULT_PROFILE_ID
+): ReferenceProfile =>
+  REFERENCE_PROFILES.find((profile) => profile.id === profileId) ??
+  customProfiles.get(profileId) ??
+  REFERENCE_PROFILES[0];
+
+/**
+ * Returns the range of a metric within the given profile.
+ */
+export const getMetricRange = (
+  metricKey: MetricKey,
+  profileId: ReferenceProfileId = DEFAULT_PROFILE_ID
+): MetricRange => getReferenceProfile(profileId).ranges[metricKey];
+
+/**
+ * Suggests the built-in profile matching a conduit and target vessel.
+ */
+export const suggestReferenceProfileId = (
+  conduit: ConduitType,
+  target: TargetVessel
+): ReferenceProfileId => {
+  const isArterial = CONDUIT_INFO[conduit].category === 'arterial';
+  const isLad = TARGET_VESSEL_INFO[target].territory === 'LAD';
+
+  if (isArterial) {
+    return isLad ? 'arterial-LAD' : 'arterial-other';
+  }
+  return isLad ? 'venous-LAD' : 'venous-RCA';
+};
+
+/**
+ * Get the zone type for a value within an explicit metric range.
  * Returns the zone type ('green', 'yellow', 'red') that contains the value.
  */
-export const getZoneForValue = (
-  metricKey: keyof typeof REFERENCE_RANGES,
-  value: number
-): 'green' | 'yellow' | 'red' => {
-  const range = REFERENCE_RANGES[metricKey];
+export const getZoneForRange = (range: MetricRange, value: number): ZoneType => {
   const clampedValue = Math.max(range.min, Math.min(range.max, value));
 
   for (const zone of range.zones) {
@@ -138,3 +348,13 @@ export const getZoneForValue = (
   // Fallback to red if no zone matches (edge case)
   return 'red';
 };
+
+/**
+ * Get the zone type for a given value of a metric.
+ * Zones are resolved from the given reference profile (the default profile if omitted).
+ */
+export const getZoneForValue = (
+  metricKey: MetricKey,
+  value: number,
+  profileId: ReferenceProfileId = DEFAULT_PROFILE_ID
+): ZoneType => getZoneForRange(getMetricRange(metricKey, profileId), value);
@@ -0,0 +1,78 @@
+/**
+ * Value ranges the training case generator draws from, per scenario.
+ * Ranges are in base units and chosen so the default interpretation rules
+ * reach the scenario's expected verdict for every generated case.
+ *
+ * Note: These are representative educational patterns, not clinical standards.
+ */
+
+import { ConduitType, MetricKey, TrainingScenario, CONDUIT_TYPES } from '../types/metrics';
+
+/** Inclusive range a generated value is drawn from */
+export interface ValueSpan {
+  readonly min: number;
+  readonly max: number;
+}
+
+/** How cases of one scenario are generated */
+export interface TrainingScenarioSpec {
+  /** Range per metric, in base units */
+  readonly values: Readonly<Record<MetricKey, ValueSpan>>;
+  /** Conduits the scenario is typically seen with */
+  readonly conduits: readonly ConduitType[];
+}
+
+/** Arterial conduits, which are the ones prone to competitive flow */
+const ARTERIAL_CONDUITS: readonly ConduitType[] = ['LIMA', 'RIMA', 'RA', 'GEA'];
+
+/** Generation spec per scenario */
+export const TRAINING_SCENARIO_SPECS: Readonly<Record<TrainingScenario, TrainingScenarioSpec>> = {
+  // No rule fires
+  goodGraft: {
+    values: {
+      MF: { min: 35, max: 90 },
+      PI: { min: 1, max: 2.8 },
+      DF: { min: 70, max: 88 },
+      BF: { min: 0, max: 2.5 },
+      ACI: { min: 82, max: 98 },
+      MAP: { min: 72, max: 95 },
+    },
+    conduits: CONDUIT_TYPES,
+  },
+  // Backflow with raised pulsatility; flow stays above the technical-problem threshold
+  competitiveFlow: {
+    values: {
+      MF: { min: 20, max: 40 },
+      PI: { min: 3.3, max: 4.8 },
+      DF: { min: 55, max: 75 },
+      BF: { min: 4, max: 12 },
+      ACI: { min: 80, max: 95 },
+      MAP: { min: 72, max: 95 },
+    },
+    conduits: ARTERIAL_CONDUITS,
+  },
+  // Low, systolic-dominant flow with high pulsatility
+  kinkedGraft: {
+    values: {
+      MF: { min: 4, max: 16 },
+      PI: { min: 5.5, max: 9.5 },
+      DF: { min: 25, max: 48 },
+      BF: { min: 0, max: 2.5 },
+      ACI: { min: 80, max: 95 },
+      MAP: { min: 72, max: 95 },
+    },
+    conduits: CONDUIT_TYPES,
+  },
+  // Unremarkable flow read through a poorly coupled probe
+  poorCoupling: {
+    values: {
+      MF: { min: 25, max: 70 },
+      PI: { min: 1.2, max: 2.9 },
+      DF: { min: 60, max: 85 },
+      BF: { min: 0, max: 2.5 },
+      ACI: { min: 10, max: 45 },
+      MAP: { min: 72, max: 95 },
+    },
+    conduits: CONDUIT_TYPES,
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Units each metric can be displayed and entered in.
+ * Values are always stored in the metric's base unit (the unit of its
+ * MetricRange); other units are derived with a linear factor.
+ */
+
+import { MetricKey } from '../types/metrics';
+
+/** A unit a metric can be shown in */
+export interface UnitDefinition {
+  /** Identifier stored in preferences, e.g. "L/min" */
+  readonly id: string;
+  /** Label shown next to values */
+  readonly label: string;
+  /** Multiplier from the base unit: value in this unit = base value × factor */
+  readonly factor: number;
+  /** Decimal places added to the base unit's precision */
+  readonly extraDecimals: number;
+}
+
+/** Flow in millilitres per minute (base) */
+const ML_PER_MIN: UnitDefinition = { id: 'mL/min', label: 'mL/min', factor: 1, extraDecimals: 0 };
+
+/** Flow in litres per minute */
+const L_PER_MIN: UnitDefinition = { id: 'L/min', label: 'L/min', factor: 0.001, extraDecimals: 3 };
+
+/** Pressure in millimetres of mercury (base) */
+const MMHG: UnitDefinition = { id: 'mmHg', label: 'mmHg', factor: 1, extraDecimals: 0 };
+
+/** Pressure in kilopascals (1 mmHg = 0.133322 kPa) */
+const KPA: UnitDefinition = { id: 'kPa', label: 'kPa', factor: 0.133322, extraDecimals: 1 };
+
+/** Percentage (base) */
+const PERCENT: UnitDefinition = { id: '%', label: '%', factor: 1, extraDecimals: 0 };
+
+/** Dimensionless ratio (base) */
+const RATIO: UnitDefinition = { id: '', label: '', factor: 1, extraDecimals: 0 };
+
+/**
+ * Available units per metric; the first entry is the base unit.
+ */
+export const METRIC_UNITS: Readonly<Record<MetricKey, readonly UnitDefinition[]>> = {
+  MF: [ML_PER_MIN, L_PER_MIN],
+  PI: [RATIO],
+  DF: [PERCENT],
+  BF: [PERCENT],
+  ACI: [PERCENT],
+  MAP: [MMHG, KPA],
+} as const;
@@ -0,0 +1,25 @@
+/**
+ * Non-color cues identifying zones for the color-safe zone encoding.
+ * Each zone gets a symbol and a hatch pattern so its meaning does not
+ * depend on telling hues apart.
+ */
+
+import { ZoneType } from '../types/metrics';
+
+/** Cues for one zone type */
+export interface ZoneCue {
+  /** Symbol shown next to a value in this zone */
+  readonly icon: string;
+  /** SVG dash pattern striping gauge segments; null leaves the segment solid */
+  readonly hatch: string | null;
+}
+
+/** Cues per zone: solid for optimal, sparse stripes for borderline, dense for poor */
+export const ZONE_CUES: Readonly<Record<ZoneType, ZoneCue>> = {
+  green: { icon: '✓', hatch: null },
+  yellow: { icon: '!', hatch: '2 5' },
+  red: { icon: '✕', hatch: '2 2' },
+};
+
+/** Opacity of the hatch stripes drawn over a segment */
+export const HATCH_OPACITY = 0.6;
@@ -0,0 +1,153 @@
+/**
+ * React context holding the user's preferences.
+ * Preferences are loaded from the device store at startup and written
+ * back whenever they change.
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { GaugeVariant, MetricKey, ScaleMode } from '../types/metrics';
+import { AppPreferences, DEFAULT_PREFERENCES } from '../storage/preferencesStore';
+import { LocalePreference } from '../utils/i18n';
+import { ThemePreference, ZoneEncoding } from '../constants/colors';
+import { usePreferencesStore } from './StorageContext';
+
+interface PreferencesContextValue {
+  /** Current preferences; defaults until the stored ones are loaded */
+  readonly preferences: AppPreferences;
+  /** Merges and persists a partial update */
+  readonly updatePreferences: (update: Partial<AppPreferences>) => void;
+  /** Selects the unit a metric is displayed and entered in */
+  readonly setPreferredUnit: (key: MetricKey, unitId: string) => void;
+  /** Selects the interface language */
+  readonly setLocale: (locale: LocalePreference) => void;
+  /** Selects the display theme */
+  readonly setTheme: (theme: ThemePreference) => void;
+  /** Selects how zones are told apart */
+  readonly setZoneEncoding: (zoneEncoding: ZoneEncoding) => void;
+  /** Selects how gauges show values outside their scale */
+  readonly setScaleMode: (scaleMode: ScaleMode) => void;
+  /** Selects the gauge style */
+  readonly setGaugeVariant: (gaugeVariant: GaugeVariant) => void;
+  /** Sets the live measurement feed endpoint */
+  readonly setStreamUrl: (streamUrl: string) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+interface PreferencesProviderProps {
+  readonly children: React.ReactNode;
+}
+
+/**
+ * PreferencesProvider must be rendered inside StorageProvider.
+ */
+export const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) => {
+  const store = usePreferencesStore();
+  const [preferences, setPreferences] = useState<AppPreferences>(DEFAULT_PREFERENCES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let isActive = true;
+
+    store
+      .load()
+      .then((stored) => {
+        if (isActive) setPreferences(stored);
+      })
+      .catch(() => {
+        // Keep the defaults when the store cannot be read
+      })
+      .finally(() => {
+        if (isActive) setIsLoaded(true);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [store]);
+
+  // Persist every change made after the stored preferences were loaded
+  useEffect(() => {
+    if (!isLoaded) return;
+    store.save(preferences).catch(() => {
+      // The change still applies for this run of the app
+    });
+  }, [store, preferences, isLoaded]);
+
+  const updatePreferences = useCallback((update: Partial<AppPreferences>) => {
+    setPreferences((prev) => ({ ...prev, ...update }));
+  }, []);
+
+  const setPreferredUnit = useCallback((key: MetricKey, unitId: string) => {
+    setPreferences((prev) => ({ ...prev, units: { ...prev.units, [key]: unitId } }));
+  }, []);
+
+  const setLocale = useCallback((locale: LocalePreference) => {
+    setPreferences((prev) => ({ ...prev, locale }));
+  }, []);
+
+  const setTheme = useCallback((theme: ThemePreference) => {
+    setPreferences((prev) => ({ ...prev, theme }));
+  }, []);
+
+  const setZoneEncoding = useCallback((zoneEncoding: ZoneEncoding) => {
+    setPreferences((prev) => ({ ...prev, zoneEncoding }));
+  }, []);
+
+  const setScaleMode = useCallback((scaleMode: ScaleMode) => {
+    setPreferences((prev) => ({ ...prev, scaleMode }));
+  }, []);
+
+  const setGaugeVariant = useCallback((gaugeVariant: GaugeVariant) => {
+    setPreferences((prev) => ({ ...prev, gaugeVariant }));
+  }, []);
+
+  const setStreamUrl = useCallback((streamUrl: string) => {
+    setPreferences((prev) => ({ ...prev, streamUrl }));
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      preferences,
+      updatePreferences,
+      setPreferredUnit,
+      setLocale,
+      setTheme,
+      setZoneEncoding,
+      setScaleMode,
+      setGaugeVariant,
+      setStreamUrl,
+    }),
+    [
+      preferences,
+      updatePreferences,
+      setPreferredUnit,
+      setLocale,
+      setTheme,
+      setZoneEncoding,
+      setScaleMode,
+      setGaugeVariant,
+      setStreamUrl,
+    ]
+  );
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+};
+
+/**
+ * Accesses the preferences. Must be used inside PreferencesProvider.
+ */
+export const usePreferences = (): PreferencesContextValue => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,121 @@
+/**
+ * React context exposing the available reference profiles.
+ * Loads saved custom profiles into the profile registry at startup and
+ * keeps the registry and the device store in sync when they change.
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { ReferenceProfile, ReferenceProfileId } from '../types/metrics';
+import {
+  getReferenceProfiles,
+  isBuiltInProfile,
+  registerReferenceProfile,
+  unregisterReferenceProfile,
+} from '../constants/referenceRanges';
+import { useCustomProfileStore } from './StorageContext';
+
+interface ReferenceProfileContextValue {
+  /** Built-in and custom profiles, built-in ones first */
+  readonly profiles: readonly ReferenceProfile[];
+  /** Custom profiles only */
+  readonly customProfiles: readonly ReferenceProfile[];
+  /**
+   * Validates, registers and persists a custom profile.
+   * Throws a ReferenceRangeError when the ranges are invalid.
+   */
+  readonly saveProfile: (profile: ReferenceProfile) => Promise<void>;
+  /** Unregisters and deletes a custom profile */
+  readonly removeProfile: (profileId: ReferenceProfileId) => Promise<void>;
+}
+
+const ReferenceProfileContext = createContext<ReferenceProfileContextValue | null>(null);
+
+interface ReferenceProfileProviderProps {
+  readonly children: React.ReactNode;
+}
+
+/**
+ * ReferenceProfileProvider must be rendered inside StorageProvider.
+ */
+export const ReferenceProfileProvider: React.FC<ReferenceProfileProviderProps> = ({
+  children,
+}) => {
+  const store = useCustomProfileStore();
+  const [profiles, setProfiles] = useState<readonly ReferenceProfile[]>(getReferenceProfiles);
+
+  const refresh = useCallback(() => setProfiles(getReferenceProfiles()), []);
+
+  useEffect(() => {
+    let isActive = true;
+
+    store
+      .list()
+      .then((stored) => {
+        stored.forEach((profile) => {
+          try {
+            registerReferenceProfile(profile);
+          } catch {
+            // Skip stored profiles that no longer pass validation
+          }
+        });
+        if (isActive) refresh();
+      })
+      .catch(() => {
+        // Keep the built-in profiles when the store cannot be read
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [store, refresh]);
+
+  const saveProfile = useCallback(
+    async (profile: ReferenceProfile) => {
+      await store.save(profile);
+      registerReferenceProfile(profile);
+      refresh();
+    },
+    [store, refresh]
+  );
+
+  const removeProfile = useCallback(
+    async (profileId: ReferenceProfileId) => {
+      await store.remove(profileId);
+      unregisterReferenceProfile(profileId);
+      refresh();
+    },
+    [store, refresh]
+  );
+
+  const value = useMemo(
+    () => ({
+      profiles,
+      customProfiles: profiles.filter((profile) => !isBuiltInProfile(profile.id)),
+      saveProfile,
+      removeProfile,
+    }),
+    [profiles, saveProfile, removeProfile]
+  );
+
+  return (
+    <ReferenceProfileContext.Provider value={value}>{children}</ReferenceProfileContext.Provider>
+  );
+};
+
+/**
+ * Accesses the reference profiles. Must be used inside ReferenceProfileProvider.
+ */
+export const useReferenceProfiles = (): ReferenceProfileContextValue => {
+  const context = useContext(ReferenceProfileContext);
+  if (!context) {
+    throw new Error('useReferenceProfiles must be used within a ReferenceProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,87 @@
+/**
+ * React context holding the surgical session currently being assessed.
+ * Shared by the input, session and results screens.
+ */
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { GraftAssessment, SurgicalSession } from '../types/metrics';
+import {
+  GraftDraft,
+  addGraft as addGraftToSession,
+  createSession,
+  removeGraft as removeGraftFromSession,
+  updateGraft as updateGraftInSession,
+} from '../utils/session';
+
+interface SessionContextValue {
+  /** Session currently being edited */
+  readonly session: SurgicalSession;
+  /** Adds a graft assessment to the session */
+  readonly addGraft: (draft: GraftDraft) => void;
+  /** Replaces an existing graft assessment */
+  readonly updateGraft: (graftId: string, draft: GraftDraft) => void;
+  /** Removes a graft assessment */
+  readonly removeGraft: (graftId: string) => void;
+  /** Looks up a graft by ID */
+  readonly getGraft: (graftId: string) => GraftAssessment | undefined;
+  /** Discards the current session and starts an empty one */
+  readonly resetSession: () => void;
+  /** Replaces the current session, e.g. with one reopened from history */
+  readonly loadSession: (session: SurgicalSession) => void;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+interface SessionProviderProps {
+  readonly children: React.ReactNode;
+}
+
+/**
+ * SessionProvider owns the session state for the whole navigation stack.
+ */
+export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) => {
+  const [session, setSession] = useState<SurgicalSession>(createSession);
+
+  const addGraft = useCallback((draft: GraftDraft) => {
+    setSession((prev) => addGraftToSession(prev, draft));
+  }, []);
+
+  const updateGraft = useCallback((graftId: string, draft: GraftDraft) => {
+    setSession((prev) => updateGraftInSession(prev, graftId, draft));
+  }, []);
+
+  const removeGraft = useCallback((graftId: string) => {
+    setSession((prev) => removeGraftFromSession(prev, graftId));
+  }, []);
+
+  const getGraft = useCallback(
+    (graftId: string) => session.grafts.find((graft) => graft.id === graftId),
+    [session]
+  );
+
+  const resetSession = useCallback(() => {
+    setSession(createSession());
+  }, []);
+
+  const loadSession = useCallback((next: SurgicalSession) => {
+    setSession(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ session, addGraft, updateGraft, removeGraft, getGraft, resetSession, loadSession }),
+    [session, addGraft, updateGraft, removeGraft, getGraft, resetSession, loadSession]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+/**
+ * Accesses the current session. Must be used inside SessionProvider.
+ */
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
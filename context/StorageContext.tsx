@@ -0,0 +1,71 @@
+/**
+ * React context supplying the StorageAdapter used by all persistent stores.
+ * The app uses the device store; tests can provide an in-memory adapter.
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { StorageAdapter } from '../storage/storageAdapter';
+import { createAsyncStorageAdapter } from '../storage/asyncStorageAdapter';
+import { AssessmentHistory, createAssessmentHistory } from '../storage/assessmentHistory';
+import { CustomProfileStore, createCustomProfileStore } from '../storage/customProfileStore';
+import { PreferencesStore, createPreferencesStore } from '../storage/preferencesStore';
+import { QuizScoreStore, createQuizScoreStore } from '../storage/quizScoreStore';
+
+const StorageContext = createContext<StorageAdapter | null>(null);
+
+interface StorageProviderProps {
+  /** Adapter to use; defaults to the device key-value store */
+  readonly adapter?: StorageAdapter;
+  readonly children: React.ReactNode;
+}
+
+/**
+ * StorageProvider makes a StorageAdapter available to the component tree.
+ */
+export const StorageProvider: React.FC<StorageProviderProps> = ({ adapter, children }) => {
+  const value = useMemo(() => adapter ?? createAsyncStorageAdapter(), [adapter]);
+  return <StorageContext.Provider value={value}>{children}</StorageContext.Provider>;
+};
+
+/**
+ * Accesses the current StorageAdapter. Must be used inside StorageProvider.
+ */
+export const useStorage = (): StorageAdapter => {
+  const context = useContext(StorageContext);
+  if (!context) {
+    throw new Error('useStorage must be used within a StorageProvider');
+  }
+  return context;
+};
+
+/**
+ * Returns the assessment history store for the current adapter.
+ */
+export const useAssessmentHistory = (): AssessmentHistory => {
+  const adapter = useStorage();
+  return useMemo(() => createAssessmentHistory(adapter), [adapter]);
+};
+
+/**
+ * Returns the custom reference profile store for the current adapter.
+ */
+export const useCustomProfileStore = (): CustomProfileStore => {
+  const adapter = useStorage();
+  return useMemo(() => createCustomProfileStore(adapter), [adapter]);
+};
+
+/**
+ * Returns the preferences store for the current adapter.
+ */
+export const usePreferencesStore = (): PreferencesStore => {
+  const adapter = useStorage();
+  return useMemo(() => createPreferencesStore(adapter), [adapter]);
+};
+
+/**
+ * Returns the quiz score store for the current adapter.
+ */
+export const useQuizScoreStore = (): QuizScoreStore => {
+  const adapter = useStorage();
+  return useMemo(() => createQuizScoreStore(adapter), [adapter]);
+};
@@ -0,0 +1,22 @@
+/**
+ * Hook announcing changes to screen reader users.
+ * Used for state that changes without moving focus, such as the zone
+ * of a gauge whose value is being edited.
+ */
+
+import { useEffect, useRef } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/**
+ * Announces the message whenever the watched value changes.
+ * Nothing is announced for the initial value, or when the message is null.
+ */
+export const useAnnounceOnChange = <T>(value: T, message: string | null): void => {
+  const previous = useRef(value);
+
+  useEffect(() => {
+    if (Object.is(previous.current, value)) return;
+    previous.current = value;
+    if (message) AccessibilityInfo.announceForAccessibility(message);
+  }, [value, message]);
+};
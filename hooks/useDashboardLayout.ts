@@ -0,0 +1,41 @@
+/**
+ * Hook choosing how gauge cards are laid out for the current window.
+ * Follows window resizes and rotation.
+ */
+
+import { useWindowDimensions } from 'react-native';
+import {
+  COMPACT_CARD_MIN_WIDTH,
+  DASHBOARD_GUTTER,
+  DASHBOARD_MIN_WIDTH,
+  LANDSCAPE_COLUMNS,
+  PORTRAIT_COLUMNS,
+} from '../constants/layout';
+
+/** Layout of the gauge cards on the results screen */
+export interface DashboardLayout {
+  /** Cards per row; 1 stacks full-size cards */
+  readonly columns: number;
+  /** Whether cards use the compact variant */
+  readonly isCompact: boolean;
+}
+
+/**
+ * Returns a single column on narrow windows and a grid of compact cards
+ * on wide ones, with more columns in landscape than in portrait.
+ *
+ * @param horizontalPadding - Space the screen keeps on either side of the cards
+ */
+export const useDashboardLayout = (horizontalPadding: number = 0): DashboardLayout => {
+  const { width, height } = useWindowDimensions();
+
+  if (width < DASHBOARD_MIN_WIDTH) return { columns: 1, isCompact: false };
+
+  const available = width - horizontalPadding * 2;
+  const preferred = width > height ? LANDSCAPE_COLUMNS : PORTRAIT_COLUMNS;
+  const fitting = Math.floor(
+    (available + DASHBOARD_GUTTER) / (COMPACT_CARD_MIN_WIDTH + DASHBOARD_GUTTER)
+  );
+
+  return { columns: Math.max(1, Math.min(preferred, fitting)), isCompact: true };
+};
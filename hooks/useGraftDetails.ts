@@ -0,0 +1,126 @@
+/**
+ * State hook for the descriptive fields of a graft assessment.
+ * Keeps the reference profile in sync with the chosen conduit and target.
+ * Also tracks which earlier assessment, if any, the graft revises.
+ */
+
+import { useCallback, useState } from 'react';
+import {
+  ConduitType,
+  GraftAssessment,
+  ReferenceProfileId,
+  TargetVessel,
+} from '../types/metrics';
+import { DEFAULT_CONDUIT, DEFAULT_TARGET, getDefaultGraftName } from '../constants/grafts';
+import { suggestReferenceProfileId } from '../constants/referenceRanges';
+
+/** Descriptive graft fields, excluding ID and metric values */
+export type GraftDetails = Pick<
+  GraftAssessment,
+  'name' | 'conduit' | 'target' | 'profileId' | 'revisionOf'
+>;
+
+/** State and handlers returned by useGraftDetails */
+export interface GraftDetailsState {
+  readonly conduit: ConduitType;
+  readonly target: TargetVessel;
+  readonly profileId: ReferenceProfileId;
+  /** Raw name input; empty means the default name is used */
+  readonly name: string;
+  /** ID of the earlier assessment this graft revises */
+  readonly revisionOf: string | undefined;
+  readonly setConduit: (conduit: ConduitType) => void;
+  readonly setTarget: (target: TargetVessel) => void;
+  readonly setProfileId: (profileId: ReferenceProfileId) => void;
+  readonly setName: (name: string) => void;
+  /**
+   * Marks the graft as a revision of an earlier assessment and copies its
+   * name, conduit, target and profile; null removes the link.
+   */
+  readonly linkRevision: (before: GraftAssessment | null) => void;
+  /**
+   * Replaces several fields at once, e.g. when pre-filling from an import.
+   * The profile is suggested from conduit and target unless given.
+   */
+  readonly applyDetails: (details: Partial<GraftDetails>) => void;
+  /** Resolves the final graft details, applying the default name */
+  readonly getDetails: () => GraftDetails;
+}
+
+/**
+ * Manages graft detail fields, optionally initialized from an existing graft.
+ * Changing the conduit or target selects the suggested reference profile;
+ * the user can still pick a different profile afterwards.
+ */
+export const useGraftDetails = (initial?: GraftDetails): GraftDetailsState => {
+  const [conduit, setConduitState] = useState<ConduitType>(initial?.conduit ?? DEFAULT_CONDUIT);
+  const [target, setTargetState] = useState<TargetVessel>(initial?.target ?? DEFAULT_TARGET);
+  const [name, setName] = useState(initial?.name ?? '');
+  const [profileId, setProfileId] = useState<ReferenceProfileId>(
+    initial?.profileId ?? suggestReferenceProfileId(DEFAULT_CONDUIT, DEFAULT_TARGET)
+  );
+  const [revisionOf, setRevisionOf] = useState(initial?.revisionOf);
+
+  const setConduit = useCallback(
+    (value: ConduitType) => {
+      setConduitState(value);
+      setProfileId(suggestReferenceProfileId(value, target));
+    },
+    [target]
+  );
+
+  const setTarget = useCallback(
+    (value: TargetVessel) => {
+      setTargetState(value);
+      setProfileId(suggestReferenceProfileId(conduit, value));
+    },
+    [conduit]
+  );
+
+  const applyDetails = useCallback(
+    (next: Partial<GraftDetails>) => {
+      const nextConduit = next.conduit ?? conduit;
+      const nextTarget = next.target ?? target;
+      setConduitState(nextConduit);
+      setTargetState(nextTarget);
+      setName(next.name ?? '');
+      setProfileId(next.profileId ?? suggestReferenceProfileId(nextConduit, nextTarget));
+    },
+    [conduit, target]
+  );
+
+  const linkRevision = useCallback((before: GraftAssessment | null) => {
+    setRevisionOf(before?.id);
+    if (!before) return;
+    setConduitState(before.conduit);
+    setTargetState(before.target);
+    setName(before.name);
+    setProfileId(before.profileId);
+  }, []);
+
+  const getDetails = useCallback(
+    (): GraftDetails => ({
+      name: name.trim() || getDefaultGraftName(conduit, target),
+      conduit,
+      target,
+      profileId,
+      revisionOf,
+    }),
+    [name, conduit, target, profileId, revisionOf]
+  );
+
+  return {
+    conduit,
+    target,
+    profileId,
+    name,
+    revisionOf,
+    setConduit,
+    setTarget,
+    setProfileId,
+    setName,
+    linkRevision,
+    applyDetails,
+    getDetails,
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * Hook exposing the active interface language and a bound translator.
+ * The language follows the user's preference, or the device language
+ * when set to 'system'.
+ */
+
+import { useMemo } from 'react';
+import { LocaleId } from '../constants/i18n';
+import { MessageKey } from '../constants/messages/en';
+import { usePreferences } from '../context/PreferencesContext';
+import { MessageParams, resolveLocalePreference, translate } from '../utils/i18n';
+
+/** Active language and translator returned by useI18n */
+export interface I18nState {
+  readonly locale: LocaleId;
+  /** Looks up a message in the active language */
+  readonly t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+/**
+ * Resolves the preferred language. Must be used inside PreferencesProvider.
+ */
+export const useI18n = (): I18nState => {
+  const preference = usePreferences().preferences.locale;
+
+  return useMemo(() => {
+    const locale = resolveLocalePreference(preference);
+    return {
+      locale,
+      t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    };
+  }, [preference]);
+};
@@ -0,0 +1,68 @@
+/**
+ * Hook connecting to a live measurement feed.
+ * Keeps the latest reading of every metric the feed has reported and
+ * the state of the connection.
+ */
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_METRIC_VALUES, MetricValues } from '../types/metrics';
+import { StreamStatus, createStreamClient } from '../utils/streamClient';
+
+/** State of a live feed */
+export interface LiveStreamState {
+  /** Connection state */
+  readonly status: StreamStatus;
+  /** Wait in ms before the next reconnect attempt while reconnecting */
+  readonly retryIn: number | null;
+  /** Latest value of every metric, in base units; null until reported */
+  readonly values: MetricValues;
+  /** Timestamp of the latest frame, or null before the first one */
+  readonly lastFrameAt: number | null;
+}
+
+const INITIAL_STATE: LiveStreamState = {
+  status: 'closed',
+  retryIn: null,
+  values: DEFAULT_METRIC_VALUES,
+  lastFrameAt: null,
+};
+
+/**
+ * Streams metric values from the feed at `url` while `isEnabled` is true.
+ * Each frame updates only the metrics it reports. Values are kept when
+ * the connection drops, and cleared when the URL changes.
+ */
+export const useLiveStream = (url: string, isEnabled: boolean): LiveStreamState => {
+  const [state, setState] = useState<LiveStreamState>(INITIAL_STATE);
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+  }, [url]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    let isActive = true;
+
+    const client = createStreamClient(url, {
+      onStatus: (status, retryIn) => {
+        if (isActive) setState((prev) => ({ ...prev, status, retryIn: retryIn ?? null }));
+      },
+      onFrame: (frame) => {
+        if (!isActive) return;
+        setState((prev) => ({
+          ...prev,
+          values: { ...prev.values, ...frame.values },
+          lastFrameAt: frame.timestamp,
+        }));
+      },
+    });
+
+    return () => {
+      isActive = false;
+      client.close();
+      setState((prev) => ({ ...prev, status: 'closed', retryIn: null }));
+    };
+  }, [url, isEnabled]);
+
+  return state;
+};
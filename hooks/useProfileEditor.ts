@@ -0,0 +1,212 @@
+/**
+ * State hook for editing a reference range profile.
+ * Bounds are kept as strings so partially typed numbers stay editable;
+ * the draft is converted to a ReferenceProfile and validated on every change.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import {
+  MetricKey,
+  MetricRange,
+  ReferenceProfile,
+  ReferenceProfileId,
+  ReferenceRanges,
+  ZoneType,
+  METRIC_KEYS,
+} from '../types/metrics';
+import { REFERENCE_RANGES } from '../constants/referenceRanges';
+import { RangeDiagnostic, validateReferenceProfile } from '../utils/rangeValidation';
+import { LocaleId } from '../constants/i18n';
+import { parseMetricInput } from '../utils/metricValues';
+import { localizeNumber } from '../utils/i18n';
+import { useI18n } from './useI18n';
+import { createId } from '../utils/session';
+
+/** Editable zone boundary */
+export interface ZoneDraft {
+  readonly start: string;
+  readonly end: string;
+  readonly type: ZoneType;
+}
+
+/** Editable display range of one metric */
+export interface RangeDraft {
+  readonly min: string;
+  readonly max: string;
+  readonly zones: readonly ZoneDraft[];
+}
+
+/** State and handlers returned by useProfileEditor */
+export interface ProfileEditorState {
+  /** ID the profile is saved under */
+  readonly id: ReferenceProfileId;
+  readonly label: string;
+  readonly drafts: Readonly<Record<MetricKey, RangeDraft>>;
+  /** Draft converted to a profile; unparseable bounds become NaN */
+  readonly profile: ReferenceProfile;
+  /** Validation findings for the current draft */
+  readonly diagnostics: readonly RangeDiagnostic[];
+  readonly setLabel: (label: string) => void;
+  readonly setBound: (key: MetricKey, bound: 'min' | 'max', text: string) => void;
+  readonly setZone: (key: MetricKey, index: number, zone: Partial<ZoneDraft>) => void;
+  /** Appends a zone spanning from the last zone's end to the range max */
+  readonly addZone: (key: MetricKey) => void;
+  readonly removeZone: (key: MetricKey, index: number) => void;
+  /** Replaces every metric with the built-in general ranges */
+  readonly resetToDefaults: () => void;
+  /** Loads a profile; when `asCopy` is set it is saved under a new ID */
+  readonly loadProfile: (profile: ReferenceProfile, asCopy: boolean) => void;
+}
+
+/**
+ * Converts a metric range into its editable form.
+ */
+const toRangeDraft = (range: MetricRange, locale: LocaleId): RangeDraft => ({
+  min: localizeNumber(range.min, locale),
+  max: localizeNumber(range.max, locale),
+  zones: range.zones.map((zone) => ({
+    start: localizeNumber(zone.start, locale),
+    end: localizeNumber(zone.end, locale),
+    type: zone.type,
+  })),
+});
+
+/**
+ * Converts every metric of a range table into its editable form.
+ */
+const toDrafts = (
+  ranges: ReferenceRanges,
+  locale: LocaleId
+): Record<MetricKey, RangeDraft> => {
+  const drafts: Partial<Record<MetricKey, RangeDraft>> = {};
+  METRIC_KEYS.forEach((key) => {
+    drafts[key] = toRangeDraft(ranges[key], locale);
+  });
+  return drafts as Record<MetricKey, RangeDraft>;
+};
+
+/**
+ * Parses an edited bound; invalid text becomes NaN so validation reports it.
+ */
+const parseBound = (text: string, locale: LocaleId): number =>
+  parseMetricInput(text, locale) ?? NaN;
+
+/**
+ * Creates an ID for a new custom profile.
+ */
+const createProfileId = (): ReferenceProfileId => `custom-${createId()}`;
+
+/**
+ * Manages a profile draft, initially a copy of the built-in general ranges.
+ * Units, labels, input validation rules and scale types are kept from the
+ * built-in ranges.
+ * Bounds are edited in the active language's number format.
+ */
+export const useProfileEditor = (): ProfileEditorState => {
+  const { locale } = useI18n();
+  const [id, setId] = useState<ReferenceProfileId>(createProfileId);
+  const [label, setLabel] = useState('');
+  const [drafts, setDrafts] = useState<Record<MetricKey, RangeDraft>>(() =>
+    toDrafts(REFERENCE_RANGES, locale)
+  );
+
+  const updateDraft = useCallback(
+    (key: MetricKey, update: (draft: RangeDraft) => RangeDraft) => {
+      setDrafts((prev) => ({ ...prev, [key]: update(prev[key]) }));
+    },
+    []
+  );
+
+  const setBound = useCallback(
+    (key: MetricKey, bound: 'min' | 'max', text: string) => {
+      updateDraft(key, (draft) => ({ ...draft, [bound]: text }));
+    },
+    [updateDraft]
+  );
+
+  const setZone = useCallback(
+    (key: MetricKey, index: number, zone: Partial<ZoneDraft>) => {
+      updateDraft(key, (draft) => ({
+        ...draft,
+        zones: draft.zones.map((current, zoneIndex) =>
+          zoneIndex === index ? { ...current, ...zone } : current
+        ),
+      }));
+    },
+    [updateDraft]
+  );
+
+  const addZone = useCallback(
+    (key: MetricKey) => {
+      updateDraft(key, (draft) => {
+        const last = draft.zones[draft.zones.length - 1];
+        return {
+          ...draft,
+          zones: [...draft.zones, { start: last?.end ?? draft.min, end: draft.max, type: 'red' }],
+        };
+      });
+    },
+    [updateDraft]
+  );
+
+  const removeZone = useCallback(
+    (key: MetricKey, index: number) => {
+      updateDraft(key, (draft) => ({
+        ...draft,
+        zones: draft.zones.filter((_, zoneIndex) => zoneIndex !== index),
+      }));
+    },
+    [updateDraft]
+  );
+
+  const resetToDefaults = useCallback(() => {
+    setDrafts(toDrafts(REFERENCE_RANGES, locale));
+  }, [locale]);
+
+  const loadProfile = useCallback((profile: ReferenceProfile, asCopy: boolean) => {
+    setId(asCopy ? createProfileId() : profile.id);
+    setLabel(asCopy ? `${profile.label} (custom)` : profile.label);
+    setDrafts(toDrafts(profile.ranges, locale));
+  }, [locale]);
+
+  const profile = useMemo((): ReferenceProfile => {
+    const ranges: Partial<Record<MetricKey, MetricRange>> = {};
+    METRIC_KEYS.forEach((key) => {
+      const draft = drafts[key];
+      ranges[key] = {
+        ...REFERENCE_RANGES[key],
+        min: parseBound(draft.min, locale),
+        max: parseBound(draft.max, locale),
+        zones: draft.zones.map((zone) => ({
+          start: parseBound(zone.start, locale),
+          end: parseBound(zone.end, locale),
+          type: zone.type,
+        })),
+      };
+    });
+
+    return {
+      id,
+      label: label.trim(),
+      description: 'Custom reference ranges',
+      ranges: ranges as ReferenceRanges,
+    };
+  }, [id, label, drafts, locale]);
+
+  const diagnostics = useMemo(() => validateReferenceProfile(profile), [profile]);
+
+  return {
+    id,
+    label,
+    drafts,
+    profile,
+    diagnostics,
+    setLabel,
+    setBound,
+    setZone,
+    addZone,
+    removeZone,
+    resetToDefaults,
+    loadProfile,
+  };
+};
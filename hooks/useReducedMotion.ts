@@ -0,0 +1,35 @@
+/**
+ * Hook tracking the operating system's reduced-motion setting.
+ * Animations should be skipped while it is enabled.
+ */
+
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+
+/**
+ * Returns whether the user asked the OS to reduce motion.
+ * Reports false until the setting has been read.
+ */
+export const useReducedMotion = (): boolean => {
+  const [isReduced, setIsReduced] = useState(false);
+
+  useEffect(() => {
+    let isActive = true;
+
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then((enabled) => {
+        if (isActive) setIsReduced(enabled);
+      })
+      .catch(() => {
+        // Keep animating when the setting cannot be read
+      });
+    const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setIsReduced);
+
+    return () => {
+      isActive = false;
+      subscription.remove();
+    };
+  }, []);
+
+  return isReduced;
+};
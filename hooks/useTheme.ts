@@ -0,0 +1,61 @@
+/**
+ * Hooks exposing the active display theme.
+ * The theme follows the user's preference, or the device's light/dark
+ * setting when set to 'system'. The color-safe zone encoding swaps the
+ * theme's zone colors and turns on non-color zone cues.
+ */
+
+import { useMemo } from 'react';
+import { ColorSchemeName, useColorScheme } from 'react-native';
+import {
+  THEME_IDS,
+  THEMES,
+  ThemeColors,
+  ThemeId,
+  ThemePreference,
+  withColorSafeZones,
+} from '../constants/colors';
+import { usePreferences } from '../context/PreferencesContext';
+
+/** Active theme returned by useTheme */
+export interface ThemeState {
+  readonly themeId: ThemeId;
+  readonly colors: ThemeColors;
+  /** Whether zones are also marked with symbols and hatching */
+  readonly showZoneCues: boolean;
+}
+
+/**
+ * Resolves a stored preference against the device color scheme.
+ * Unknown stored values follow the device setting.
+ */
+const resolveThemePreference = (
+  preference: ThemePreference,
+  scheme: ColorSchemeName
+): ThemeId =>
+  THEME_IDS.find((themeId) => themeId === preference) ?? (scheme === 'dark' ? 'dark' : 'light');
+
+/**
+ * Resolves the preferred theme. Must be used inside PreferencesProvider.
+ */
+export const useTheme = (): ThemeState => {
+  const { theme: preference, zoneEncoding } = usePreferences().preferences;
+  const scheme = useColorScheme();
+
+  return useMemo(() => {
+    const themeId = resolveThemePreference(preference, scheme);
+    const showZoneCues = zoneEncoding === 'colorSafe';
+    const colors = showZoneCues ? withColorSafeZones(themeId) : THEMES[themeId];
+    return { themeId, colors, showZoneCues };
+  }, [preference, scheme, zoneEncoding]);
+};
+
+/**
+ * Builds a component's styles from the active theme colors.
+ * The factory should be defined at module level so styles are only
+ * rebuilt when the theme changes.
+ */
+export const useThemedStyles = <T>(createStyles: (colors: ThemeColors) => T): T => {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+};
@@ -0,0 +1,93 @@
+/**
+ * Local measurement feed for developing the live screen without a device.
+ * Serves JSON metric frames over WebSocket to every connected client.
+ *
+ * Usage: npm run simulate:stream -- [--port 8080] [--interval 1000]
+ *
+ * Values are in base units and drift in a random walk around typical
+ * readings. Every few seconds the flow dips, moving the gauges across
+ * zones. Stop the server with Ctrl+C; clients then show the reconnect
+ * status until it is started again.
+ */
+
+const { WebSocketServer } = require('ws');
+
+/** Typical reading, random-walk step and bounds per metric */
+const METRICS = {
+  MF: { typical: 45, step: 3, min: 0, max: 200 },
+  PI: { typical: 2.2, step: 0.2, min: 0, max: 10 },
+  DF: { typical: 70, step: 2, min: 0, max: 100 },
+  BF: { typical: 2, step: 0.5, min: 0, max: 50 },
+  ACI: { typical: 60, step: 3, min: 0, max: 100 },
+  MAP: { typical: 75, step: 2, min: 40, max: 140 },
+};
+
+/** Frames between simulated flow dips */
+const DIP_EVERY = 15;
+
+/** Frames a flow dip lasts */
+const DIP_LENGTH = 4;
+
+/** Multiplier applied to the typical reading during a dip */
+const DIP_FACTORS = { MF: 1 / 3, PI: 2.5 };
+
+/** Share of the distance to the target reading covered each frame */
+const PULL = 0.4;
+
+/** Decimal places sent per value */
+const DECIMALS = 1;
+
+/**
+ * Reads a numeric `--name value` argument, falling back to the default.
+ */
+const readArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  const parsed = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Moves every metric one random step, pulled back towards its typical
+ * reading. During a dip, flow falls and pulsatility rises.
+ */
+const nextValues = (previous, isDipping) => {
+  const values = {};
+  Object.entries(METRICS).forEach(([key, { typical, step, min, max }]) => {
+    const target = isDipping ? typical * (DIP_FACTORS[key] ?? 1) : typical;
+    const drift = (target - previous[key]) * PULL;
+    const noise = (Math.random() * 2 - 1) * step;
+    values[key] = Number(clamp(previous[key] + drift + noise, min, max).toFixed(DECIMALS));
+  });
+  return values;
+};
+
+const port = readArg('port', 8080);
+const interval = readArg('interval', 1000);
+const server = new WebSocketServer({ port });
+
+let values = Object.fromEntries(
+  Object.entries(METRICS).map(([key, { typical }]) => [key, typical])
+);
+let frameCount = 0;
+
+setInterval(() => {
+  const isDipping = frameCount % DIP_EVERY >= DIP_EVERY - DIP_LENGTH;
+  values = nextValues(values, isDipping);
+  frameCount += 1;
+
+  const frame = JSON.stringify({ values, timestamp: Date.now() });
+  server.clients.forEach((client) => {
+    if (client.readyState === client.OPEN) client.send(frame);
+  });
+}, interval);
+
+server.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress}`);
+  socket.on('close', () => console.log('Client disconnected'));
+});
+
+server.on('listening', () => {
+  console.log(`Streaming metric frames on ws://localhost:${port} every ${interval} ms`);
+});
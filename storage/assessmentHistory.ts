@@ -0,0 +1,82 @@
+/**
+ * Local history of saved assessments.
+ * Each entry is a timestamped snapshot of a surgical session.
+ */
+
+import { SavedAssessment, SurgicalSession } from '../types/metrics';
+import { createId } from '../utils/session';
+import { STORAGE_KEY_PREFIX, StorageAdapter, readJson, writeJson } from './storageAdapter';
+
+/** Storage key holding the serialized history */
+const HISTORY_KEY = `${STORAGE_KEY_PREFIX}history`;
+
+/** Operations on the saved assessment history */
+export interface AssessmentHistory {
+  /** Returns all entries, most recently saved first */
+  readonly list: () => Promise<readonly SavedAssessment[]>;
+  /** Returns a single entry, or undefined if it does not exist */
+  readonly get: (id: string) => Promise<SavedAssessment | undefined>;
+  /**
+   * Saves a session snapshot. Saving the same session again replaces
+   * its previous entry and refreshes the timestamp.
+   */
+  readonly save: (session: SurgicalSession) => Promise<SavedAssessment>;
+  /** Copies an entry into a new session with a fresh ID and timestamp */
+  readonly duplicate: (id: string) => Promise<SavedAssessment | undefined>;
+  /** Deletes an entry */
+  readonly remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Creates a history store persisted through the given adapter.
+ */
+export const createAssessmentHistory = (adapter: StorageAdapter): AssessmentHistory => {
+  const readAll = () => readJson<SavedAssessment[]>(adapter, HISTORY_KEY, []);
+  const writeAll = (entries: readonly SavedAssessment[]) =>
+    writeJson(adapter, HISTORY_KEY, entries);
+
+  const list = async () => {
+    const entries = await readAll();
+    return [...entries].sort((a, b) => b.savedAt - a.savedAt);
+  };
+
+  const get = async (id: string) => {
+    const entries = await readAll();
+    return entries.find((entry) => entry.id === id);
+  };
+
+  const save = async (session: SurgicalSession) => {
+    const entries = await readAll();
+    const existing = entries.find((entry) => entry.session.id === session.id);
+    const saved: SavedAssessment = {
+      id: existing?.id ?? createId(),
+      savedAt: Date.now(),
+      session,
+    };
+
+    await writeAll([...entries.filter((entry) => entry.id !== saved.id), saved]);
+    return saved;
+  };
+
+  const duplicate = async (id: string) => {
+    const entries = await readAll();
+    const original = entries.find((entry) => entry.id === id);
+    if (!original) return undefined;
+
+    const copy: SavedAssessment = {
+      id: createId(),
+      savedAt: Date.now(),
+      session: { ...original.session, id: createId(), createdAt: Date.now() },
+    };
+
+    await writeAll([...entries, copy]);
+    return copy;
+  };
+
+  const remove = async (id: string) => {
+    const entries = await readAll();
+    await writeAll(entries.filter((entry) => entry.id !== id));
+  };
+
+  return { list, get, save, duplicate, remove };
+};
@@ -0,0 +1,16 @@
+/**
+ * StorageAdapter backed by the device key-value store (AsyncStorage).
+ * Data persists across app restarts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Creates an adapter that reads and writes AsyncStorage.
+ */
+export const createAsyncStorageAdapter = (): StorageAdapter => ({
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+});
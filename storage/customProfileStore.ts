@@ -0,0 +1,54 @@
+/**
+ * Persistent store of user-defined reference range profiles.
+ * Profiles are validated before they are written.
+ */
+
+import { ReferenceProfile, ReferenceProfileId } from '../types/metrics';
+import { assertValidReferenceProfile } from '../utils/rangeValidation';
+import { STORAGE_KEY_PREFIX, StorageAdapter, readJson, writeJson } from './storageAdapter';
+
+/** Storage key holding the serialized custom profiles */
+const PROFILES_KEY = `${STORAGE_KEY_PREFIX}profiles`;
+
+/** Operations on the custom profile store */
+export interface CustomProfileStore {
+  /** Returns all stored profiles in the order they were first saved */
+  readonly list: () => Promise<readonly ReferenceProfile[]>;
+  /**
+   * Saves a profile, replacing any stored profile with the same ID.
+   * Throws a ReferenceRangeError when the ranges fail validation.
+   */
+  readonly save: (profile: ReferenceProfile) => Promise<void>;
+  /** Deletes a profile */
+  readonly remove: (profileId: ReferenceProfileId) => Promise<void>;
+}
+
+/**
+ * Creates a custom profile store persisted through the given adapter.
+ */
+export const createCustomProfileStore = (adapter: StorageAdapter): CustomProfileStore => {
+  const readAll = () => readJson<ReferenceProfile[]>(adapter, PROFILES_KEY, []);
+  const writeAll = (profiles: readonly ReferenceProfile[]) =>
+    writeJson(adapter, PROFILES_KEY, profiles);
+
+  const list = async () => readAll();
+
+  const save = async (profile: ReferenceProfile) => {
+    assertValidReferenceProfile(profile);
+    const profiles = await readAll();
+    const index = profiles.findIndex((stored) => stored.id === profile.id);
+
+    await writeAll(
+      index === -1
+        ? [...profiles, profile]
+        : profiles.map((stored, storedIndex) => (storedIndex === index ? profile : stored))
+    );
+  };
+
+  const remove = async (profileId: ReferenceProfileId) => {
+    const profiles = await readAll();
+    await writeAll(profiles.filter((profile) => profile.id !== profileId));
+  };
+
+  return { list, save, remove };
+};
@@ -0,0 +1,25 @@
+/**
+ * In-memory StorageAdapter implementation.
+ * Data lives only as long as the adapter instance; intended for tests.
+ */
+
+import { StorageAdapter } from './storageAdapter';
+
+/**
+ * Creates an adapter backed by a Map, optionally pre-populated.
+ */
+export const createMemoryStorageAdapter = (
+  initial: Readonly<Record<string, string>> = {}
+): StorageAdapter => {
+  const store = new Map<string, string>(Object.entries(initial));
+
+  return {
+    getItem: async (key) => store.get(key) ?? null,
+    setItem: async (key, value) => {
+      store.set(key, value);
+    },
+    removeItem: async (key) => {
+      store.delete(key);
+    },
+  };
+};
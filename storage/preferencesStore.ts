@@ -0,0 +1,65 @@
+/**
+ * Persistent user preferences such as preferred display units, language,
+ * theme, zone encoding, gauge style, scale mode and live feed endpoint.
+ */
+
+import { GaugeVariant, ScaleMode } from '../types/metrics';
+import { UnitPreferences } from '../utils/units';
+import { LocalePreference } from '../utils/i18n';
+import { ThemePreference, ZoneEncoding } from '../constants/colors';
+import { STORAGE_KEY_PREFIX, StorageAdapter, readJson, writeJson } from './storageAdapter';
+
+/** Storage key holding the serialized preferences */
+const PREFERENCES_KEY = `${STORAGE_KEY_PREFIX}preferences`;
+
+/** All user preferences */
+export interface AppPreferences {
+  /** Preferred unit per metric */
+  readonly units: UnitPreferences;
+  /** Interface language */
+  readonly locale: LocalePreference;
+  /** Display theme */
+  readonly theme: ThemePreference;
+  /** How gauges and values tell zones apart */
+  readonly zoneEncoding: ZoneEncoding;
+  /** How gauges show values outside their reference scale */
+  readonly scaleMode: ScaleMode;
+  /** Gauge style used unless a screen picks one */
+  readonly gaugeVariant: GaugeVariant;
+  /** WebSocket endpoint of the live measurement feed */
+  readonly streamUrl: string;
+}
+
+/** Preferences used until the user changes anything */
+export const DEFAULT_PREFERENCES: AppPreferences = {
+  units: {},
+  locale: 'system',
+  theme: 'system',
+  zoneEncoding: 'color',
+  scaleMode: 'fixed',
+  gaugeVariant: 'arc',
+  streamUrl: 'ws://localhost:8080',
+};
+
+/** Operations on the preferences store */
+export interface PreferencesStore {
+  /** Returns the stored preferences merged over the defaults */
+  readonly load: () => Promise<AppPreferences>;
+  /** Replaces the stored preferences */
+  readonly save: (preferences: AppPreferences) => Promise<void>;
+}
+
+/**
+ * Creates a preferences store persisted through the given adapter.
+ */
+export const createPreferencesStore = (adapter: StorageAdapter): PreferencesStore => {
+  const load = async () => {
+    const stored = await readJson<Partial<AppPreferences>>(adapter, PREFERENCES_KEY, {});
+    return { ...DEFAULT_PREFERENCES, ...stored };
+  };
+
+  const save = (preferences: AppPreferences) =>
+    writeJson(adapter, PREFERENCES_KEY, preferences);
+
+  return { load, save };
+};
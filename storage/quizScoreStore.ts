@@ -0,0 +1,46 @@
+/**
+ * Local record of the learner's quiz answers.
+ * Keeps the latest answers so performance can be tracked over time.
+ */
+
+import { QuizAnswer } from '../types/metrics';
+import { STORAGE_KEY_PREFIX, StorageAdapter, readJson, writeJson } from './storageAdapter';
+
+/** Storage key holding the serialized answers */
+const QUIZ_SCORES_KEY = `${STORAGE_KEY_PREFIX}quizScores`;
+
+/** Answers kept; older ones are dropped first */
+const MAX_STORED_ANSWERS = 500;
+
+/** Operations on the quiz answer record */
+export interface QuizScoreStore {
+  /** Returns all kept answers, most recent first */
+  readonly list: () => Promise<readonly QuizAnswer[]>;
+  /** Adds an answer */
+  readonly record: (answer: QuizAnswer) => Promise<void>;
+  /** Deletes every answer */
+  readonly clear: () => Promise<void>;
+}
+
+/**
+ * Creates a quiz score store persisted through the given adapter.
+ */
+export const createQuizScoreStore = (adapter: StorageAdapter): QuizScoreStore => {
+  const readAll = () => readJson<QuizAnswer[]>(adapter, QUIZ_SCORES_KEY, []);
+  const writeAll = (answers: readonly QuizAnswer[]) =>
+    writeJson(adapter, QUIZ_SCORES_KEY, answers);
+
+  const list = async () => {
+    const answers = await readAll();
+    return [...answers].sort((a, b) => b.answeredAt - a.answeredAt);
+  };
+
+  const record = async (answer: QuizAnswer) => {
+    const answers = await list();
+    await writeAll([answer, ...answers].slice(0, MAX_STORED_ANSWERS));
+  };
+
+  const clear = () => writeAll([]);
+
+  return { list, record, clear };
+};
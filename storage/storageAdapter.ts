@@ -0,0 +1,48 @@
+/**
+ * Pluggable key-value storage interface.
+ * Stores depend on this interface so the backing store can be swapped,
+ * e.g. the device store in the app and an in-memory store in tests.
+ */
+
+/** Minimal asynchronous key-value store */
+export interface StorageAdapter {
+  /** Returns the stored string, or null when the key is absent */
+  readonly getItem: (key: string) => Promise<string | null>;
+  /** Stores a string under the key, replacing any previous value */
+  readonly setItem: (key: string, value: string) => Promise<void>;
+  /** Deletes the key if present */
+  readonly removeItem: (key: string) => Promise<void>;
+}
+
+/** Prefix applied to every key written by the app */
+export const STORAGE_KEY_PREFIX = 'medistim:';
+
+/**
+ * Reads and parses a JSON value.
+ * Returns the fallback when the key is absent or holds malformed JSON.
+ */
+export const readJson = async <T>(
+  adapter: StorageAdapter,
+  key: string,
+  fallback: T
+): Promise<T> => {
+  const raw = await adapter.getItem(key);
+  if (raw === null) return fallback;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Serializes and stores a JSON value.
+ */
+export const writeJson = async <T>(
+  adapter: StorageAdapter,
+  key: string,
+  value: T
+): Promise<void> => {
+  await adapter.setItem(key, JSON.stringify(value));
+};
@@ -9,6 +9,49 @@ export type MetricKey = 'MF' | 'PI' | 'DF' | 'BF' | 'ACI' | 'MAP';
 /** Zone classification for gauge coloring */
 export type ZoneType = 'green' | 'yellow' | 'red';
 
+/** Where a value lies relative to a gauge scale */
+export type ScalePosition = 'below' | 'within' | 'above';
+
+/** Gauge scale behaviour for values outside the reference scale */
+export const SCALE_MODES = ['fixed', 'extend'] as const;
+
+/**
+ * Gauge scale mode: 'fixed' keeps the reference scale and marks values
+ * beyond it, 'extend' grows the scale until the value fits.
+ */
+export type ScaleMode = (typeof SCALE_MODES)[number];
+
+/** Available gauge renderings */
+export const GAUGE_VARIANTS = ['arc', 'needle'] as const;
+
+/** Gauge rendering: filled segmented arc or zone arc with a needle */
+export type GaugeVariant = (typeof GAUGE_VARIANTS)[number];
+
+/** Available mappings of values onto a gauge arc */
+export const SCALE_TYPES = ['linear', 'log', 'piecewise'] as const;
+
+/**
+ * Gauge scale type: 'linear' spaces values evenly, 'log' stretches the
+ * low end of the scale, 'piecewise' gives every zone an equal share of
+ * the arc with values spaced evenly within each zone.
+ */
+export type ScaleType = (typeof SCALE_TYPES)[number];
+
+/** Tick marks drawn along a gauge scale */
+export interface GaugeTickOptions {
+  /** Value between major ticks; a round step is chosen from the span when omitted */
+  readonly majorStep?: number;
+  /** Minor ticks between neighbouring major ticks; 0 draws none */
+  readonly minorDivisions: number;
+}
+
+/** A value pointed out on a gauge by a marker outside the arc */
+export interface GaugeMarker {
+  readonly value: number;
+  /** Hollow markers show an earlier reading, filled ones the current one */
+  readonly isHollow?: boolean;
+}
+
 /** Defines a single zone boundary within a metric's range */
 export interface ZoneBoundary {
   readonly start: number;
@@ -16,6 +59,17 @@ export interface ZoneBoundary {
   readonly type: ZoneType;
 }
 
+/**
+ * Input rules for a metric. Plausibility limits are wider than the
+ * display range: values outside them cannot be physiologic readings.
+ */
+export interface MetricValidationRules {
+  readonly plausibleMin: number;
+  readonly plausibleMax: number;
+  /** Decimal places the measurement is reported with */
+  readonly decimals: number;
+}
+
 /** Complete reference range definition for a single metric */
 export interface MetricRange {
   readonly min: number;
@@ -23,13 +77,30 @@ export interface MetricRange {
   readonly unit: string;
   readonly label: string;
   readonly zones: readonly ZoneBoundary[];
+  readonly validation: MetricValidationRules;
+  /** How values map onto the gauge arc; linear when omitted */
+  readonly scaleType?: ScaleType;
 }
 
 /** Map of all metric ranges keyed by MetricKey */
 export type ReferenceRanges = Readonly<Record<MetricKey, MetricRange>>;
 
+/** Identifier of a reference range profile */
+export type ReferenceProfileId = string;
+
+/** Named set of reference ranges, e.g. for a graft type and territory */
+export interface ReferenceProfile {
+  readonly id: ReferenceProfileId;
+  readonly label: string;
+  readonly description: string;
+  readonly ranges: ReferenceRanges;
+}
+
+/** A metric reading; null when the metric was not measured */
+export type MetricValue = number | null;
+
 /** User-entered metric values */
-export type MetricValues = Record<MetricKey, number>;
+export type MetricValues = Record<MetricKey, MetricValue>;
 
 /** Input state with string representation for controlled inputs */
 export type MetricInputState = Record<MetricKey, string>;
@@ -53,14 +124,14 @@ export const METRIC_KEYS: readonly MetricKey[] = [
   'MAP',
 ] as const;
 
-/** Default initial values for all metrics */
+/** Default initial values for all metrics (nothing measured yet) */
 export const DEFAULT_METRIC_VALUES: MetricValues = {
-  MF: 0,
-  PI: 0,
-  DF: 0,
-  BF: 0,
-  ACI: 0,
-  MAP: 0,
+  MF: null,
+  PI: null,
+  DF: null,
+  BF: null,
+  ACI: null,
+  MAP: null,
 };
 
 /** Default initial input state (empty strings) */
@@ -72,3 +143,180 @@ export const DEFAULT_INPUT_STATE: MetricInputState = {
   ACI: '',
   MAP: '',
 };
+
+/** Conduit (graft vessel) harvested for the bypass */
+export type ConduitType = 'LIMA' | 'RIMA' | 'SVG' | 'RA' | 'GEA';
+
+/** Native coronary vessel the graft is anastomosed to */
+export type TargetVessel =
+  | 'LAD'
+  | 'D1'
+  | 'D2'
+  | 'RI'
+  | 'OM1'
+  | 'OM2'
+  | 'RCA'
+  | 'PDA'
+  | 'PLB';
+
+/** A single transit-time flow sample */
+export interface FlowSample {
+  /** Time in seconds */
+  readonly time: number;
+  /** Instantaneous flow in mL/min (negative values are backflow) */
+  readonly flow: number;
+}
+
+/** Cardiac cycle phase */
+export type CardiacPhase = 'systole' | 'diastole';
+
+/** Marks the start of a cardiac phase at a given time */
+export interface PhaseMarker {
+  /** Time in seconds */
+  readonly time: number;
+  readonly phase: CardiacPhase;
+}
+
+/** Sampled flow waveform with optional cardiac timing information */
+export interface FlowWaveformData {
+  readonly samples: readonly FlowSample[];
+  /** ECG R-peak times in seconds */
+  readonly rPeaks?: readonly number[];
+  /** Explicit systole/diastole start markers; take precedence over rPeaks */
+  readonly phaseMarkers?: readonly PhaseMarker[];
+}
+
+/** Surgical phases a graft is commonly re-measured at, in order */
+export const MEASUREMENT_PHASES = [
+  'onPump',
+  'offPump',
+  'afterProtamine',
+  'afterChestClosure',
+] as const;
+
+/** Surgical phase a set of readings was taken at */
+export type MeasurementPhase = (typeof MEASUREMENT_PHASES)[number];
+
+/** Readings of a graft taken at one surgical phase */
+export interface TimelineEntry {
+  readonly phase: MeasurementPhase;
+  /** Recording time in milliseconds since epoch */
+  readonly recordedAt: number;
+  readonly values: MetricValues;
+}
+
+/** Complete assessment of a single graft within a surgical session */
+export interface GraftAssessment {
+  readonly id: string;
+  /** Display name, e.g. "LIMA-LAD" */
+  readonly name: string;
+  readonly conduit: ConduitType;
+  readonly target: TargetVessel;
+  /** Reference profile used to classify this graft's metrics */
+  readonly profileId: ReferenceProfileId;
+  readonly values: MetricValues;
+  /** Raw flow waveform the values were computed from, if any */
+  readonly waveform?: FlowWaveformData;
+  /** ID of the earlier assessment of this graft, when re-measured after revision */
+  readonly revisionOf?: string;
+  /** Readings per surgical phase, in phase order; `values` holds the latest */
+  readonly timeline?: readonly TimelineEntry[];
+}
+
+/** Severity of an interpretation finding, from least to most serious */
+export type FindingSeverity = 'info' | 'caution' | 'critical';
+
+/**
+ * A single test on one metric. Threshold and zone tests never match an
+ * unmeasured metric; `missing` matches only an unmeasured one.
+ */
+export type RuleCondition =
+  | { readonly kind: 'below'; readonly metric: MetricKey; readonly value: number }
+  | { readonly kind: 'above'; readonly metric: MetricKey; readonly value: number }
+  | { readonly kind: 'zone'; readonly metric: MetricKey; readonly zone: ZoneType }
+  | { readonly kind: 'missing'; readonly metric: MetricKey };
+
+/** Declarative interpretation rule; fires when every condition holds */
+export interface InterpretationRule {
+  readonly id: string;
+  readonly severity: FindingSeverity;
+  readonly message: string;
+  readonly when: readonly RuleCondition[];
+}
+
+/** Result of a rule that fired for a graft */
+export interface RuleFinding {
+  readonly ruleId: string;
+  readonly severity: FindingSeverity;
+  readonly message: string;
+  /** Metrics whose conditions triggered the rule */
+  readonly metrics: readonly MetricKey[];
+}
+
+/** A CABG case holding every graft assessed during the operation */
+export interface SurgicalSession {
+  readonly id: string;
+  /** Creation time in milliseconds since epoch */
+  readonly createdAt: number;
+  readonly grafts: readonly GraftAssessment[];
+}
+
+/** All conduit types as an array for iteration */
+export const CONDUIT_TYPES: readonly ConduitType[] = [
+  'LIMA',
+  'RIMA',
+  'SVG',
+  'RA',
+  'GEA',
+] as const;
+
+/** All target vessels as an array for iteration */
+export const TARGET_VESSELS: readonly TargetVessel[] = [
+  'LAD',
+  'D1',
+  'D2',
+  'RI',
+  'OM1',
+  'OM2',
+  'RCA',
+  'PDA',
+  'PLB',
+] as const;
+
+/** A session snapshot stored in the local history */
+export interface SavedAssessment {
+  readonly id: string;
+  /** Time the snapshot was saved, in milliseconds since epoch */
+  readonly savedAt: number;
+  readonly session: SurgicalSession;
+}
+
+/** Graft scenarios the training quiz asks learners to recognize */
+export const TRAINING_SCENARIOS = [
+  'goodGraft',
+  'competitiveFlow',
+  'kinkedGraft',
+  'poorCoupling',
+] as const;
+
+/** A training scenario */
+export type TrainingScenario = (typeof TRAINING_SCENARIOS)[number];
+
+/** A generated quiz case with its ground truth */
+export interface TrainingCase {
+  readonly id: string;
+  /** Scenario the values were generated from; the correct answer */
+  readonly scenario: TrainingScenario;
+  readonly graft: GraftAssessment;
+}
+
+/** A learner's answer to one quiz case */
+export interface QuizAnswer {
+  readonly id: string;
+  /** Answer time in milliseconds since epoch */
+  readonly answeredAt: number;
+  /** Ground truth of the case */
+  readonly scenario: TrainingScenario;
+  /** Scenario the learner picked */
+  readonly answer: TrainingScenario;
+}
@@ -0,0 +1,258 @@
+/**
+ * Flow analysis utilities for transit-time flow (TTFM) waveforms.
+ * Derives Mean Flow, Pulsatility Index, Diastolic Filling and Backflow
+ * from sampled flow and optional cardiac timing markers.
+ *
+ * Conventions:
+ * - Time is in seconds, flow in mL/min; negative flow is backflow
+ * - Areas are integrated with the trapezoidal rule, splitting segments
+ *   that cross zero so forward and reverse volumes are kept separate
+ */
+
+import {
+  CardiacPhase,
+  FlowSample,
+  FlowWaveformData,
+  MetricValues,
+} from '../types/metrics';
+
+/**
+ * Fraction of each R-R interval treated as systole when only R-peaks are known.
+ * Systole occupies roughly a third of the cycle at normal heart rates.
+ */
+export const SYSTOLIC_FRACTION = 0.35;
+
+/** A time interval assigned to one cardiac phase */
+export interface PhaseInterval {
+  readonly start: number;
+  readonly end: number;
+  readonly phase: CardiacPhase;
+}
+
+/** Metrics derived from a flow waveform */
+export interface FlowAnalysisResult {
+  /** Mean Flow in mL/min */
+  readonly MF: number;
+  /** Pulsatility Index; null when mean flow is not positive */
+  readonly PI: number | null;
+  /** Diastolic Filling %; null without usable phase information */
+  readonly DF: number | null;
+  /** Backflow % of forward volume; null when there is no forward flow */
+  readonly BF: number | null;
+}
+
+/** Forward and reverse areas under a flow curve */
+interface FlowAreas {
+  positive: number;
+  negative: number;
+}
+
+/**
+ * Computes forward and reverse areas of a single linear segment.
+ * Segments that cross zero are split at the interpolated crossing.
+ */
+const segmentAreas = (a: FlowSample, b: FlowSample): FlowAreas => {
+  const dt = b.time - a.time;
+  if (dt <= 0) return { positive: 0, negative: 0 };
+
+  if (a.flow >= 0 && b.flow >= 0) {
+    return { positive: ((a.flow + b.flow) / 2) * dt, negative: 0 };
+  }
+  if (a.flow <= 0 && b.flow <= 0) {
+    return { positive: 0, negative: (-(a.flow + b.flow) / 2) * dt };
+  }
+
+  // Linear interpolation of the zero crossing
+  const crossing = (dt * a.flow) / (a.flow - b.flow);
+  const firstArea = (Math.abs(a.flow) * crossing) / 2;
+  const secondArea = (Math.abs(b.flow) * (dt - crossing)) / 2;
+
+  return a.flow > 0
+    ? { positive: firstArea, negative: secondArea }
+    : { positive: secondArea, negative: firstArea };
+};
+
+/**
+ * Returns samples sorted by time. Analysis requires monotonic time.
+ */
+const sortSamples = (samples: readonly FlowSample[]): FlowSample[] =>
+  [...samples].sort((a, b) => a.time - b.time);
+
+/**
+ * Builds phase intervals from explicit markers or, failing that, from R-peaks.
+ * Returns an empty array when no timing information is available.
+ */
+export const getPhaseIntervals = (waveform: FlowWaveformData): PhaseInterval[] => {
+  const { samples, rPeaks, phaseMarkers } = waveform;
+
+  if (phaseMarkers && phaseMarkers.length > 0) {
+    const markers = [...phaseMarkers].sort((a, b) => a.time - b.time);
+    const lastTime = samples.reduce((max, sample) => Math.max(max, sample.time), -Infinity);
+
+    return markers
+      .map((marker, index) => ({
+        start: marker.time,
+        end: index + 1 < markers.length ? markers[index + 1].time : lastTime,
+        phase: marker.phase,
+      }))
+      .filter((interval) => interval.end > interval.start);
+  }
+
+  if (rPeaks && rPeaks.length >= 2) {
+    const peaks = [...rPeaks].sort((a, b) => a - b);
+    const intervals: PhaseInterval[] = [];
+
+    for (let i = 0; i < peaks.length - 1; i++) {
+      const rr = peaks[i + 1] - peaks[i];
+      if (rr <= 0) continue;
+      const systoleEnd = peaks[i] + rr * SYSTOLIC_FRACTION;
+      intervals.push({ start: peaks[i], end: systoleEnd, phase: 'systole' });
+      intervals.push({ start: systoleEnd, end: peaks[i + 1], phase: 'diastole' });
+    }
+
+    return intervals;
+  }
+
+  return [];
+};
+
+/**
+ * Returns the phase containing the given time, if any.
+ */
+export const getPhaseAt = (
+  time: number,
+  intervals: readonly PhaseInterval[]
+): CardiacPhase | undefined =>
+  intervals.find((interval) => time >= interval.start && time < interval.end)?.phase;
+
+/**
+ * Mean Flow: time-weighted average of the net flow.
+ */
+export const computeMeanFlow = (samples: readonly FlowSample[]): number => {
+  const sorted = sortSamples(samples);
+  const duration = sorted[sorted.length - 1].time - sorted[0].time;
+  if (duration <= 0) return sorted[0].flow;
+
+  let net = 0;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const areas = segmentAreas(sorted[i], sorted[i + 1]);
+    net += areas.positive - areas.negative;
+  }
+  return net / duration;
+};
+
+/**
+ * Pulsatility Index: (Qmax − Qmin) / Qmean.
+ * Returns null when mean flow is zero or negative.
+ */
+export const computePulsatilityIndex = (samples: readonly FlowSample[]): number | null => {
+  const meanFlow = computeMeanFlow(samples);
+  if (meanFlow <= 0) return null;
+
+  const flows = samples.map((sample) => sample.flow);
+  return (Math.max(...flows) - Math.min(...flows)) / meanFlow;
+};
+
+/**
+ * Backflow %: reverse volume as a percentage of forward volume.
+ * Returns null when there is no forward flow.
+ */
+export const computeBackflow = (samples: readonly FlowSample[]): number | null => {
+  const sorted = sortSamples(samples);
+  let positive = 0;
+  let negative = 0;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const areas = segmentAreas(sorted[i], sorted[i + 1]);
+    positive += areas.positive;
+    negative += areas.negative;
+  }
+
+  return positive > 0 ? (negative / positive) * 100 : null;
+};
+
+/**
+ * Diastolic Filling %: forward volume during diastole as a percentage of
+ * forward volume during the classified cardiac cycles.
+ * Each segment is assigned to the phase at its midpoint.
+ * Returns null when no phase information is available.
+ */
+export const computeDiastolicFilling = (waveform: FlowWaveformData): number | null => {
+  const intervals = getPhaseIntervals(waveform);
+  if (intervals.length === 0) return null;
+
+  const sorted = sortSamples(waveform.samples);
+  let diastolic = 0;
+  let classified = 0;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const phase = getPhaseAt((sorted[i].time + sorted[i + 1].time) / 2, intervals);
+    if (!phase) continue;
+
+    const { positive } = segmentAreas(sorted[i], sorted[i + 1]);
+    classified += positive;
+    if (phase === 'diastole') diastolic += positive;
+  }
+
+  return classified > 0 ? (diastolic / classified) * 100 : null;
+};
+
+/**
+ * Computes every flow-derived metric of a waveform.
+ * Throws when fewer than two samples are provided.
+ */
+export const analyzeFlowWaveform = (waveform: FlowWaveformData): FlowAnalysisResult => {
+  if (waveform.samples.length < 2) {
+    throw new Error('At least two flow samples are required for analysis');
+  }
+
+  return {
+    MF: computeMeanFlow(waveform.samples),
+    PI: computePulsatilityIndex(waveform.samples),
+    DF: computeDiastolicFilling(waveform),
+    BF: computeBackflow(waveform.samples),
+  };
+};
+
+/**
+ * Merges analysis results into existing metric values.
+ * Metrics the analysis could not determine keep their previous value.
+ */
+export const applyFlowAnalysis = (
+  values: MetricValues,
+  result: FlowAnalysisResult
+): MetricValues => ({
+  ...values,
+  MF: result.MF,
+  PI: result.PI ?? values.PI,
+  DF: result.DF ?? values.DF,
+  BF: result.BF ?? values.BF,
+});
+
+/**
+ * Parses "time, flow" pairs, one per line.
+ * Accepts comma, semicolon, tab or space separators and skips
+ * lines that are not numeric (e.g. a header row).
+ */
+export const parseFlowSamples = (text: string): FlowSample[] => {
+  const samples: FlowSample[] = [];
+
+  text.split(/\r?\n/).forEach((line) => {
+    const [time, flow] = line.trim().split(/[,;\t ]+/).map(Number);
+    if (Number.isFinite(time) && Number.isFinite(flow)) {
+      samples.push({ time, flow });
+    }
+  });
+
+  return samples;
+};
+
+/**
+ * Parses a list of times in seconds separated by commas, spaces or newlines.
+ */
+export const parseTimeList = (text: string): number[] =>
+  text
+    .split(/[\s,;]+/)
+    .filter((token) => token.length > 0)
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
@@ -8,9 +8,25 @@
  * - Gauge spans from 180° (left) to 0° (right) forming an upward-facing semicircle
  */
 
+import {
+  GaugeTickOptions,
+  MetricRange,
+  ScalePosition,
+  ScaleType,
+  ZoneBoundary,
+} from '../types/metrics';
+import { DEFAULT_LOCALE, LocaleId } from '../constants/i18n';
+import { getDecimalSeparator } from './i18n';
+
 /** Constant for converting degrees to radians */
 const DEG_TO_RAD = Math.PI / 180;
 
+/**
+ * Stretch of the low end on logarithmic scales: the first twentieth of
+ * the span takes about a quarter of the arc, whatever the unit.
+ */
+const LOG_SCALE_FACTOR = 20;
+
 /**
  * Clamps a value between min and max boundaries.
  * Ensures gauge values stay within displayable range.
@@ -21,16 +37,86 @@ export const clampValue = (value: number, min: number, max: number): number => {
 
 /**
  * Converts a value to a percentage within a given range.
- * Returns 0-1 representing position within min/max.
+ * Returns 0-1 representing position within min/max, following the
+ * scale type. Piecewise scales need the zones; without them they fall
+ * back to linear.
  */
 export const valueToPercentage = (
   value: number,
   min: number,
-  max: number
+  max: number,
+  scaleType: ScaleType = 'linear',
+  zones: readonly ZoneBoundary[] = []
 ): number => {
   if (max === min) return 0;
   const clamped = clampValue(value, min, max);
-  return (clamped - min) / (max - min);
+  const linear = (clamped - min) / (max - min);
+
+  switch (scaleType) {
+    case 'log':
+      return Math.log1p(LOG_SCALE_FACTOR * linear) / Math.log1p(LOG_SCALE_FACTOR);
+    case 'piecewise':
+      return zones.length > 0 ? getPiecewisePercentage(clamped, zones) : linear;
+    default:
+      return linear;
+  }
+};
+
+/**
+ * Places a value on a scale where each zone takes an equal share.
+ */
+const getPiecewisePercentage = (value: number, zones: readonly ZoneBoundary[]): number => {
+  const found = zones.findIndex((zone) => value <= zone.end);
+  const index = found === -1 ? zones.length - 1 : found;
+  const zone = zones[index];
+  const fraction =
+    zone.end > zone.start ? clampValue((value - zone.start) / (zone.end - zone.start), 0, 1) : 1;
+  return (index + fraction) / zones.length;
+};
+
+/**
+ * Reports whether a value lies below, within or above a scale.
+ * The gauge clamps such values, so callers mark them explicitly.
+ */
+export const getScalePosition = (value: number, min: number, max: number): ScalePosition => {
+  if (value < min) return 'below';
+  if (value > max) return 'above';
+  return 'within';
+};
+
+/**
+ * Returns a round step of about a quarter of the span, e.g. 50 for 0–200.
+ */
+const getScaleStep = (span: number): number => {
+  const magnitude = 10 ** Math.floor(Math.log10(span));
+  const steps = [0.5, 1, 2, 2.5, 5].map((factor) => factor * magnitude);
+  return steps.find((step) => step >= span / 4) ?? 5 * magnitude;
+};
+
+/**
+ * Extends a range so a value outside it fits, rounding the new end to
+ * a step of the original scale and leaving half a step of headroom.
+ * The end zone grows to the new end, so every other zone keeps its
+ * bounds and the arc stays proportional to value.
+ */
+export const extendRangeToFit = (range: MetricRange, value: number): MetricRange => {
+  const position = getScalePosition(value, range.min, range.max);
+  if (position === 'within') return range;
+
+  const step = getScaleStep(range.max - range.min);
+  const min = position === 'below' ? Math.floor((value - step / 2) / step) * step : range.min;
+  const max = position === 'above' ? Math.ceil((value + step / 2) / step) * step : range.max;
+
+  return {
+    ...range,
+    min,
+    max,
+    zones: range.zones.map((zone) => ({
+      ...zone,
+      start: zone.start === range.min ? min : zone.start,
+      end: zone.end === range.max ? max : zone.end,
+    })),
+  };
 };
 
 /**
@@ -50,9 +136,11 @@ export const percentageToAngle = (percentage: number): number => {
 export const valueToAngle = (
   value: number,
   min: number,
-  max: number
+  max: number,
+  scaleType: ScaleType = 'linear',
+  zones: readonly ZoneBoundary[] = []
 ): number => {
-  const percentage = valueToPercentage(value, min, max);
+  const percentage = valueToPercentage(value, min, max, scaleType, zones);
   return percentageToAngle(percentage);
 };
 
@@ -106,9 +194,10 @@ export const describeArc = (
   // Large arc flag: 1 if arc spans more than 180°
   const largeArcFlag = angularSpan > 180 ? 1 : 0;
   
-  // Sweep flag: 0 = counter-clockwise in SVG coords, which is clockwise visually
-  // Since we go from high angle (left) to low angle (right), we sweep clockwise
-  const sweepFlag = 0;
+  // Sweep flag: 1 = positive-angle direction in SVG coords, which is clockwise
+  // on screen. Going from high angle (left) to low angle (right) over the top
+  // of the gauge is a clockwise sweep
+  const sweepFlag = 1;
 
   return `M ${start.x} ${start.y} A ${radius} ${radius} 0 ${largeArcFlag} ${sweepFlag} ${end.x} ${end.y}`;
 };
@@ -123,6 +212,8 @@ export const describeArc = (
  * @param centerX - X coordinate of needle pivot
  * @param centerY - Y coordinate of needle pivot
  * @param length - Needle length
+ * @param scaleType - Mapping of values onto the arc
+ * @param zones - Zones of the scale, needed by piecewise scales
  */
 export const calculateNeedlePosition = (
   value: number,
@@ -130,9 +221,11 @@ export const calculateNeedlePosition = (
   max: number,
   centerX: number,
   centerY: number,
-  length: number
+  length: number,
+  scaleType: ScaleType = 'linear',
+  zones: readonly ZoneBoundary[] = []
 ): { tipX: number; tipY: number; angle: number } => {
-  const angle = valueToAngle(value, min, max);
+  const angle = valueToAngle(value, min, max, scaleType, zones);
   const tip = polarToCartesian(centerX, centerY, length, angle);
 
   return {
@@ -151,16 +244,148 @@ export const zoneToArcAngles = (
   zoneStart: number,
   zoneEnd: number,
   rangeMin: number,
-  rangeMax: number
+  rangeMax: number,
+  scaleType: ScaleType = 'linear',
+  zones: readonly ZoneBoundary[] = []
 ): { startAngle: number; endAngle: number } => {
   // Zone start (lower value) = higher angle (more left on gauge)
   // Zone end (higher value) = lower angle (more right on gauge)
-  const startAngle = valueToAngle(zoneStart, rangeMin, rangeMax);
-  const endAngle = valueToAngle(zoneEnd, rangeMin, rangeMax);
+  const startAngle = valueToAngle(zoneStart, rangeMin, rangeMax, scaleType, zones);
+  const endAngle = valueToAngle(zoneEnd, rangeMin, rangeMax, scaleType, zones);
   
   return { startAngle, endAngle };
 };
 
+/**
+ * Splits the semicircle into segments separated by a gap, matching how
+ * the segmented-arc gauge lays out its zones.
+ *
+ * @param scales - Share of the arc taken by each segment, summing to 1
+ * @param spacingDeg - Gap between neighbouring segments in degrees
+ */
+export const getSegmentArcAngles = (
+  scales: readonly number[],
+  spacingDeg: number
+): { startAngle: number; endAngle: number }[] => {
+  const availableDeg = 180 - (scales.length - 1) * spacingDeg;
+  let startAngle = 180;
+
+  return scales.map((scale) => {
+    const endAngle = startAngle - scale * availableDeg;
+    const angles = { startAngle, endAngle };
+    startAngle = endAngle - spacingDeg;
+    return angles;
+  });
+};
+
+/**
+ * Returns the share of the arc each zone takes on a scale, summing to 1.
+ */
+export const getZoneArcShares = (
+  zones: readonly ZoneBoundary[],
+  min: number,
+  max: number,
+  scaleType: ScaleType = 'linear'
+): number[] =>
+  zones.map(
+    (zone) =>
+      valueToPercentage(zone.end, min, max, scaleType, zones) -
+      valueToPercentage(zone.start, min, max, scaleType, zones)
+  );
+
+/**
+ * Maps values onto a segmented arc laid out by getSegmentArcAngles.
+ * Values inside a zone map onto its segment following the scale type; a
+ * boundary shared by two zones maps to the middle of the gap between
+ * their segments.
+ *
+ * @param zones - Zones in scale order
+ * @param angles - Segment angles, in the same order as zones
+ * @param scaleType - Mapping of values onto the arc
+ */
+export const createSegmentedValueToAngle = (
+  zones: readonly ZoneBoundary[],
+  angles: readonly { startAngle: number; endAngle: number }[],
+  scaleType: ScaleType = 'linear'
+) => (value: number): number => {
+  const index = zones.findIndex((zone) => value <= zone.end);
+  if (index === -1) return angles[angles.length - 1]?.endAngle ?? 0;
+
+  const zone = zones[index];
+  const { startAngle, endAngle } = angles[index];
+  if (value <= zone.start) {
+    return index === 0 ? startAngle : (angles[index - 1].endAngle + startAngle) / 2;
+  }
+  if (value === zone.end && index < zones.length - 1) {
+    return (endAngle + angles[index + 1].startAngle) / 2;
+  }
+  const min = zones[0].start;
+  const max = zones[zones.length - 1].end;
+  const toPercentage = (point: number) => valueToPercentage(point, min, max, scaleType, zones);
+  const zoneStart = toPercentage(zone.start);
+  const fraction = (toPercentage(value) - zoneStart) / (toPercentage(zone.end) - zoneStart);
+  return startAngle - fraction * (startAngle - endAngle);
+};
+
+/**
+ * Returns the values of the major and minor ticks within a scale.
+ * Major ticks fall on multiples of the step, so they line up with round
+ * numbers even when the scale itself does not start on one.
+ */
+export const getTickValues = (
+  min: number,
+  max: number,
+  options: GaugeTickOptions
+): { major: number[]; minor: number[] } => {
+  const majorStep = options.majorStep ?? getScaleStep(max - min);
+  const minorStep = options.minorDivisions > 0 ? majorStep / (options.minorDivisions + 1) : 0;
+  // Tolerance for floating-point steps such as 0.1
+  const epsilon = majorStep * 1e-9;
+  const major: number[] = [];
+  const minor: number[] = [];
+
+  const firstMajor = Math.ceil(min / majorStep) * majorStep;
+  for (let tick = firstMajor; tick <= max + epsilon; tick += majorStep) {
+    major.push(tick);
+  }
+  if (minorStep > 0) {
+    const firstMinor = Math.ceil(min / minorStep) * minorStep;
+    for (let tick = firstMinor; tick <= max + epsilon; tick += minorStep) {
+      const isMajor = major.some((value) => Math.abs(value - tick) < epsilon * 10);
+      if (!isMajor) minor.push(tick);
+    }
+  }
+
+  return { major, minor };
+};
+
+/**
+ * Moves label positions apart so neighbours are at least minGap apart,
+ * keeping them within lower..upper where there is room.
+ * Positions must be sorted ascending; a label only moves when it would
+ * collide, so well-spaced labels stay at their ticks.
+ */
+export const spreadLabelPositions = (
+  positions: readonly number[],
+  minGap: number,
+  lower: number,
+  upper: number
+): number[] => {
+  const spread = [...positions];
+
+  // Push crowded labels toward the upper end...
+  for (let index = 1; index < spread.length; index++) {
+    spread[index] = Math.max(spread[index], spread[index - 1] + minGap);
+  }
+  // ...then pull any that overshot back, pushing their neighbours down
+  for (let index = spread.length - 1; index >= 0; index--) {
+    const limit = index === spread.length - 1 ? upper : spread[index + 1] - minGap;
+    spread[index] = Math.max(lower, Math.min(spread[index], limit));
+  }
+
+  return spread;
+};
+
 /**
  * Creates a full semicircle arc path from left (180°) to right (0°).
  */
@@ -170,20 +395,20 @@ export const describeFullArc = (
   radius: number
 ): string => {
   return describeArc(centerX, centerY, radius, 180, 0);
-
-  return { startAngle, endAngle };
 };
 
 /**
  * Formats a numeric value for display.
- * Handles decimal places appropriately for different metric types.
+ * Handles decimal places appropriately for different metric types
+ * and uses the decimal mark of the given language.
  */
 export const formatDisplayValue = (
   value: number,
-  decimalPlaces: number = 1
+  decimalPlaces: number = 1,
+  locale: LocaleId = DEFAULT_LOCALE
 ): string => {
   if (Number.isInteger(value) || decimalPlaces === 0) {
     return Math.round(value).toString();
   }
-  return value.toFixed(decimalPlaces);
+  return value.toFixed(decimalPlaces).replace('.', getDecimalSeparator(locale));
 };
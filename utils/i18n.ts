@@ -0,0 +1,172 @@
+/**
+ * Message lookup and locale-aware number handling.
+ * Messages are looked up in the catalog of the active language with
+ * English as the fallback; numbers use the language's decimal mark.
+ */
+
+import {
+  ConduitType,
+  MetricKey,
+  ReferenceProfile,
+  RuleFinding,
+  TargetVessel,
+  ZoneType,
+} from '../types/metrics';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_INFO,
+  LocaleId,
+  MESSAGE_CATALOGS,
+} from '../constants/i18n';
+import { EN_MESSAGES, MessageKey } from '../constants/messages/en';
+
+/** Preferred language; 'system' follows the device language */
+export type LocalePreference = LocaleId | 'system';
+
+/** Values substituted for {placeholders} in a message */
+export type MessageParams = Readonly<Record<string, string | number>>;
+
+/** A gauge reading described by getGaugeSummary */
+export interface GaugeReading {
+  /** Metric or range label */
+  readonly label: string;
+  /** Value formatted for display; null when not measured */
+  readonly value: string | null;
+  /** Unit the value and scale are shown in */
+  readonly unitId: string;
+  readonly zone: ZoneType | null;
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * Looks up a message and fills in its placeholders.
+ * Placeholders without a matching param are left as written.
+ */
+export const translate = (locale: LocaleId, key: MessageKey, params?: MessageParams): string => {
+  const template = MESSAGE_CATALOGS[locale][key] ?? EN_MESSAGES[key];
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * Checks whether a dynamically built key exists in the catalogs.
+ */
+const isMessageKey = (key: string): key is MessageKey => key in EN_MESSAGES;
+
+/**
+ * Translates a key that only exists for built-in content, such as
+ * a default rule, returning the fallback for user-defined content.
+ */
+const translateOr = (locale: LocaleId, key: string, fallback: string): string =>
+  isMessageKey(key) ? translate(locale, key) : fallback;
+
+/**
+ * Maps a BCP 47 tag such as "de-AT" onto a supported language.
+ */
+export const resolveLocale = (tag: string | undefined): LocaleId => {
+  const language = tag?.split(/[-_]/)[0].toLowerCase();
+  return LOCALES.find((locale) => locale === language) ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Returns the supported language closest to the device language.
+ */
+export const getDeviceLocale = (): LocaleId => {
+  try {
+    return resolveLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+/**
+ * Resolves a stored preference to the language to display.
+ * Unknown stored values follow the device language.
+ */
+export const resolveLocalePreference = (preference: LocalePreference): LocaleId =>
+  LOCALES.find((locale) => locale === preference) ?? getDeviceLocale();
+
+/**
+ * Returns the decimal mark of a language.
+ */
+export const getDecimalSeparator = (locale: LocaleId): string =>
+  LOCALE_INFO[locale].decimalSeparator;
+
+/**
+ * Writes a number with the language's decimal mark, e.g. 2.5 → "2,5".
+ */
+export const localizeNumber = (value: number, locale: LocaleId): string =>
+  value.toString().replace('.', getDecimalSeparator(locale));
+
+/**
+ * Rewrites locale-formatted numeric text into the notation Number() reads,
+ * e.g. "2,5" → "2.5". The text is not otherwise validated.
+ */
+export const delocalizeNumber = (text: string, locale: LocaleId): string =>
+  text.trim().replace(getDecimalSeparator(locale), '.');
+
+/**
+ * Returns the translated label of a metric.
+ */
+export const getMetricLabel = (key: MetricKey, locale: LocaleId): string =>
+  translate(locale, `metric.${key}` as const);
+
+/**
+ * Returns the translated label of a built-in profile, or the
+ * user-given label of a custom one.
+ */
+export const getProfileLabel = (profile: ReferenceProfile, locale: LocaleId): string =>
+  translateOr(locale, `profile.${profile.id}`, profile.label);
+
+/**
+ * Returns the translated message of a finding raised by a built-in
+ * rule, or the rule's own message otherwise.
+ */
+export const getFindingMessage = (finding: RuleFinding, locale: LocaleId): string =>
+  translateOr(locale, `rule.${finding.ruleId}`, finding.message);
+
+/**
+ * Returns the translated full name of a conduit.
+ */
+export const getConduitLabel = (conduit: ConduitType, locale: LocaleId): string =>
+  translate(locale, `conduit.${conduit}` as const);
+
+/**
+ * Returns the translated full name of a target vessel.
+ */
+export const getTargetVesselLabel = (target: TargetVessel, locale: LocaleId): string =>
+  translate(locale, `target.${target}` as const);
+
+/**
+ * Returns how a unit is read out by screen readers, e.g. "mL/min" →
+ * "millilitres per minute". Units without a spoken form are read as written.
+ */
+export const getSpokenUnit = (unitId: string, locale: LocaleId): string =>
+  translateOr(locale, `unit.${unitId}`, unitId);
+
+/**
+ * Describes a gauge for screen readers, e.g.
+ * "Mean Flow 45 millilitres per minute, optimal zone, range 0 to 200".
+ */
+export const getGaugeSummary = (reading: GaugeReading, locale: LocaleId): string => {
+  const range = translate(locale, 'gauge.a11yRange', {
+    min: localizeNumber(reading.min, locale),
+    max: localizeNumber(reading.max, locale),
+  });
+  if (reading.value === null || reading.zone === null) {
+    return translate(locale, 'gauge.a11yNotMeasured', { metric: reading.label, range });
+  }
+
+  const unit = getSpokenUnit(reading.unitId, locale);
+  return translate(locale, 'gauge.a11ySummary', {
+    metric: reading.label,
+    value: unit ? `${reading.value} ${unit}` : reading.value,
+    zone: translate(locale, `zone.${reading.zone}` as const),
+    range,
+  });
+};
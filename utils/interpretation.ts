@@ -0,0 +1,129 @@
+/**
+ * Rule engine that interprets a whole MetricValues record.
+ * Rules are declarative (see constants/interpretationRules.ts); the engine
+ * evaluates them and derives an overall verdict from the findings.
+ */
+
+import {
+  FindingSeverity,
+  GraftAssessment,
+  InterpretationRule,
+  MetricValues,
+  ReferenceProfileId,
+  RuleCondition,
+  RuleFinding,
+  SurgicalSession,
+} from '../types/metrics';
+import { getMetricRange, getZoneForRange } from '../constants/referenceRanges';
+import {
+  DEFAULT_INTERPRETATION_RULES,
+  FINDING_SEVERITIES,
+} from '../constants/interpretationRules';
+import { isMeasured } from './metricValues';
+
+/** Overall judgement of a graft or session */
+export interface Verdict {
+  /** Most serious finding severity; null when no rule fired */
+  readonly severity: FindingSeverity | null;
+  readonly summary: string;
+  readonly findings: readonly RuleFinding[];
+}
+
+/** Verdict summary per worst severity */
+const VERDICT_SUMMARIES: Readonly<Record<FindingSeverity | 'none', string>> = {
+  none: 'No concerns found',
+  info: 'Acceptable, with notes',
+  caution: 'Review recommended',
+  critical: 'Revision should be considered',
+};
+
+/**
+ * Ranks a severity; higher is more serious.
+ */
+const severityRank = (severity: FindingSeverity): number =>
+  FINDING_SEVERITIES.indexOf(severity);
+
+/**
+ * Checks a single condition against the metric values.
+ */
+const matchesCondition = (
+  condition: RuleCondition,
+  values: MetricValues,
+  profileId: ReferenceProfileId
+): boolean => {
+  const value = values[condition.metric];
+
+  switch (condition.kind) {
+    case 'missing':
+      return !isMeasured(value);
+    case 'below':
+      return isMeasured(value) && value < condition.value;
+    case 'above':
+      return isMeasured(value) && value > condition.value;
+    case 'zone':
+      return (
+        isMeasured(value) &&
+        getZoneForRange(getMetricRange(condition.metric, profileId), value) === condition.zone
+      );
+  }
+};
+
+/**
+ * Evaluates rules against metric values.
+ * Returns the findings of every rule that fired, most serious first.
+ */
+export const evaluateRules = (
+  values: MetricValues,
+  profileId: ReferenceProfileId,
+  rules: readonly InterpretationRule[] = DEFAULT_INTERPRETATION_RULES
+): RuleFinding[] =>
+  rules
+    .filter(
+      (rule) =>
+        rule.when.length > 0 &&
+        rule.when.every((condition) => matchesCondition(condition, values, profileId))
+    )
+    .map((rule) => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      message: rule.message,
+      metrics: [...new Set(rule.when.map((condition) => condition.metric))],
+    }))
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+
+/**
+ * Builds a verdict from a list of findings.
+ */
+export const getVerdict = (findings: readonly RuleFinding[]): Verdict => {
+  const severity = findings.reduce<FindingSeverity | null>(
+    (worst, finding) =>
+      worst === null || severityRank(finding.severity) > severityRank(worst)
+        ? finding.severity
+        : worst,
+    null
+  );
+
+  return {
+    severity,
+    summary: VERDICT_SUMMARIES[severity ?? 'none'],
+    findings,
+  };
+};
+
+/**
+ * Interprets a single graft against its reference profile.
+ */
+export const interpretGraft = (
+  graft: GraftAssessment,
+  rules?: readonly InterpretationRule[]
+): Verdict => getVerdict(evaluateRules(graft.values, graft.profileId, rules));
+
+/**
+ * Combines the verdicts of every graft; the session is as serious
+ * as its worst graft.
+ */
+export const interpretSession = (
+  session: SurgicalSession,
+  rules?: readonly InterpretationRule[]
+): Verdict =>
+  getVerdict(session.grafts.flatMap((graft) => interpretGraft(graft, rules).findings));
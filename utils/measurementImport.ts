@@ -0,0 +1,479 @@
+/**
+ * Importer for CSV and JSON measurement exports.
+ * Maps export columns to metrics with name heuristics and returns
+ * one MetricValues record per row together with a per-row issue report.
+ */
+
+import {
+  ConduitType,
+  MetricKey,
+  MetricValues,
+  TargetVessel,
+  CONDUIT_TYPES,
+  DEFAULT_METRIC_VALUES,
+  METRIC_KEYS,
+  TARGET_VESSELS,
+} from '../types/metrics';
+import { DEFAULT_CONDUIT, DEFAULT_TARGET, getDefaultGraftName } from '../constants/grafts';
+import { suggestReferenceProfileId } from '../constants/referenceRanges';
+import { METRIC_UNITS } from '../constants/units';
+import { validateMetricValue } from './metricValidation';
+import { GraftDraft } from './session';
+import { UnitPreferences, getDisplayRange, toBaseValue } from './units';
+
+/** Non-metric columns recognized in exports */
+export type GraftField = 'name' | 'conduit' | 'target';
+
+/** Any column the importer can map */
+export type ImportField = MetricKey | GraftField;
+
+/** Severity of an import issue */
+export type ImportIssueSeverity = 'error' | 'warning';
+
+/** A problem found while importing; row is 1-based, 0 for file-level issues */
+export interface ImportIssue {
+  readonly row: number;
+  readonly severity: ImportIssueSeverity;
+  readonly message: string;
+}
+
+/** One successfully parsed row */
+export interface ImportedMeasurement {
+  /** 1-based row number in the source file (excluding the CSV header) */
+  readonly row: number;
+  readonly name?: string;
+  readonly conduit?: ConduitType;
+  readonly target?: TargetVessel;
+  readonly values: MetricValues;
+}
+
+/** Outcome of importing a file */
+export interface ImportResult {
+  readonly format: 'csv' | 'json';
+  readonly measurements: readonly ImportedMeasurement[];
+  readonly issues: readonly ImportIssue[];
+  /** Source column name used for each recognized field */
+  readonly columnMapping: Readonly<Partial<Record<ImportField, string>>>;
+}
+
+/**
+ * Normalized column names accepted for each field.
+ * Headers are lower-cased, stripped of bracketed units and non-alphanumerics.
+ */
+const COLUMN_ALIASES: Readonly<Record<ImportField, readonly string[]>> = {
+  MF: ['mf', 'meanflow', 'qmean', 'flow', 'meanflowrate'],
+  PI: ['pi', 'pulsatilityindex', 'pulsatility'],
+  DF: ['df', 'diastolicfilling', 'diastolicflow', 'diastolicfillingpercent'],
+  BF: ['bf', 'backflow', 'reverseflow', 'backflowpercent'],
+  ACI: ['aci', 'acousticcouplingindex', 'acousticcoupling', 'coupling', 'signalquality'],
+  MAP: ['map', 'meanarterialpressure', 'meanpressure', 'pressure', 'abp'],
+  name: ['graft', 'graftname', 'name', 'label', 'id'],
+  conduit: ['conduit', 'grafttype', 'conduittype', 'source'],
+  target: ['target', 'targetvessel', 'vessel', 'anastomosis', 'territory'],
+};
+
+/** Minimum alias length for substring (rather than exact) matching */
+const MIN_FUZZY_ALIAS_LENGTH = 5;
+
+const IMPORT_FIELDS = Object.keys(COLUMN_ALIASES) as ImportField[];
+
+/**
+ * Normalizes a column header for alias comparison.
+ * "MF (mL/min)" and "Mean Flow [mL/min]" become "mf" and "meanflow".
+ */
+const normalizeHeader = (header: string): string =>
+  header
+    .replace(/[([{].*?[)\]}]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Extracts the bracketed unit of a column header, e.g. "L/min" from
+ * "MF (L/min)". Returns undefined when the header names no unit.
+ */
+const parseHeaderUnit = (header: string): string | undefined => {
+  const match = /[([{]\s*(.*?)\s*[)\]}]/.exec(header);
+  return match && match[1] ? match[1] : undefined;
+};
+
+/**
+ * Normalizes a unit for comparison, so "ml/min" matches "mL/min"
+ * and "mm Hg" matches "mmHg".
+ */
+const normalizeUnit = (unit: string): string => unit.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Resolves the unit each mapped metric column is written in.
+ * Columns without a unit are taken to be in the base unit; columns
+ * with a unit the metric does not support are dropped from the mapping.
+ */
+const resolveColumnUnits = (
+  mapping: Partial<Record<ImportField, string>>,
+  issues: ImportIssue[]
+): UnitPreferences => {
+  const units: Partial<Record<MetricKey, string>> = {};
+
+  METRIC_KEYS.forEach((key) => {
+    const column = mapping[key];
+    if (!column) return;
+
+    const unit = parseHeaderUnit(column);
+    if (!unit) return;
+
+    const match = METRIC_UNITS[key].find(
+      (definition) => definition.id && normalizeUnit(definition.id) === normalizeUnit(unit)
+    );
+    if (match) {
+      units[key] = match.id;
+    } else {
+      delete mapping[key];
+      issues.push({
+        row: 0,
+        severity: 'error',
+        message: `Unknown unit "${unit}" in column "${column}"; ${key} column ignored`,
+      });
+    }
+  });
+
+  return units;
+};
+
+/**
+ * Picks a source column for every field.
+ * Exact alias matches win over substring matches; each column is used once.
+ */
+export const mapColumns = (
+  headers: readonly string[]
+): Partial<Record<ImportField, string>> => {
+  const mapping: Partial<Record<ImportField, string>> = {};
+  const used = new Set<string>();
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+
+  const assign = (matches: (alias: string, key: string) => boolean) => {
+    IMPORT_FIELDS.forEach((field) => {
+      if (mapping[field]) return;
+      const match = normalized.find(
+        ({ header, key }) =>
+          !used.has(header) && COLUMN_ALIASES[field].some((alias) => matches(alias, key))
+      );
+      if (match) {
+        mapping[field] = match.header;
+        used.add(match.header);
+      }
+    });
+  };
+
+  assign((alias, key) => alias === key);
+  assign((alias, key) => alias.length >= MIN_FUZZY_ALIAS_LENGTH && key.includes(alias));
+
+  return mapping;
+};
+
+/**
+ * Parses a numeric cell. Accepts a decimal comma when the file
+ * does not use commas as the field delimiter.
+ */
+const parseNumber = (raw: unknown, allowDecimalComma: boolean): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+
+  const text = allowDecimalComma ? raw.trim().replace(',', '.') : raw.trim();
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+  return Number(text);
+};
+
+/**
+ * Matches free text against a list of codes, e.g. "lima" → "LIMA".
+ */
+const matchCode = <T extends string>(raw: unknown, codes: readonly T[]): T | undefined => {
+  if (typeof raw !== 'string') return undefined;
+  const text = raw.trim().toUpperCase();
+  return codes.find((code) => code === text);
+};
+
+/**
+ * Infers conduit and target from a conventional graft name such as "LIMA-LAD".
+ */
+const inferFromName = (
+  name: string | undefined
+): { conduit?: ConduitType; target?: TargetVessel } => {
+  if (!name) return {};
+  const parts = name.toUpperCase().split(/[^A-Z0-9]+/);
+  return {
+    conduit: CONDUIT_TYPES.find((conduit) => parts.includes(conduit)),
+    target: TARGET_VESSELS.find((target) => parts.includes(target)),
+  };
+};
+
+/**
+ * Converts one record (header → cell) into a measurement, collecting issues.
+ * Values are converted from the column's unit into the base unit.
+ * Returns null when the row has hard errors, including implausible values.
+ */
+const parseRecord = (
+  record: Readonly<Record<string, unknown>>,
+  row: number,
+  mapping: Partial<Record<ImportField, string>>,
+  units: UnitPreferences,
+  allowDecimalComma: boolean,
+  issues: ImportIssue[]
+): ImportedMeasurement | null => {
+  const values: MetricValues = { ...DEFAULT_METRIC_VALUES };
+  const entered: Partial<Record<MetricKey, number>> = {};
+  let hasError = false;
+
+  METRIC_KEYS.forEach((key) => {
+    const column = mapping[key];
+    if (!column) return;
+
+    const raw = record[column];
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+      issues.push({ row, severity: 'warning', message: `${key} is empty; left as not measured` });
+      return;
+    }
+
+    const parsed = parseNumber(raw, allowDecimalComma);
+    if (parsed === null) {
+      issues.push({ row, severity: 'error', message: `${key} value "${String(raw)}" is not a number` });
+      hasError = true;
+      return;
+    }
+    entered[key] = parsed;
+    values[key] = toBaseValue(key, parsed, units[key]);
+  });
+
+  if (hasError) return null;
+
+  const nameCell = mapping.name ? record[mapping.name] : undefined;
+  const name = typeof nameCell === 'string' && nameCell.trim() ? nameCell.trim() : undefined;
+  const inferred = inferFromName(name);
+  const conduit = (mapping.conduit && matchCode(record[mapping.conduit], CONDUIT_TYPES)) || inferred.conduit;
+  const target = (mapping.target && matchCode(record[mapping.target], TARGET_VESSELS)) || inferred.target;
+
+  if (mapping.conduit && record[mapping.conduit] && !conduit) {
+    issues.push({ row, severity: 'warning', message: `Unknown conduit "${String(record[mapping.conduit])}"` });
+  }
+  if (mapping.target && record[mapping.target] && !target) {
+    issues.push({ row, severity: 'warning', message: `Unknown target vessel "${String(record[mapping.target])}"` });
+  }
+
+  // Same plausibility and precision rules as the input form, against the
+  // profile the row will be assessed with and in the column's own unit
+  const profileId = suggestReferenceProfileId(conduit ?? DEFAULT_CONDUIT, target ?? DEFAULT_TARGET);
+  METRIC_KEYS.forEach((key) => {
+    const value = entered[key];
+    if (value === undefined) return;
+    validateMetricValue(value, getDisplayRange(key, profileId, units)).forEach((issue) => {
+      issues.push({ row, severity: issue.severity, message: `${key}: ${issue.message}` });
+      if (issue.severity === 'error') hasError = true;
+    });
+  });
+
+  if (hasError) return null;
+
+  return { row, name, conduit, target, values };
+};
+
+/**
+ * Reports metrics that no column could be mapped to.
+ */
+const reportUnmappedMetrics = (
+  mapping: Partial<Record<ImportField, string>>,
+  issues: ImportIssue[]
+) => {
+  const unmapped = METRIC_KEYS.filter((key) => !mapping[key]);
+  if (unmapped.length === METRIC_KEYS.length) {
+    issues.push({ row: 0, severity: 'error', message: 'No metric columns recognized' });
+  } else if (unmapped.length > 0) {
+    issues.push({
+      row: 0,
+      severity: 'warning',
+      message: `No column found for ${unmapped.join(', ')}; left as not measured`,
+    });
+  }
+};
+
+/**
+ * Picks the most frequent delimiter in the header line.
+ */
+const detectDelimiter = (headerLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Splits a CSV line into cells, honoring double-quoted fields.
+ */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((cell) => cell.trim());
+};
+
+/**
+ * Parses a CSV export with a header row.
+ * Comma, semicolon and tab delimiters are detected automatically.
+ */
+export const parseMeasurementCsv = (text: string): ImportResult => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const issues: ImportIssue[] = [];
+
+  if (lines.length === 0) {
+    return {
+      format: 'csv',
+      measurements: [],
+      issues: [{ row: 0, severity: 'error', message: 'File is empty' }],
+      columnMapping: {},
+    };
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitCsvLine(lines[0], delimiter);
+  const mapping = mapColumns(headers);
+  const units = resolveColumnUnits(mapping, issues);
+  reportUnmappedMetrics(mapping, issues);
+
+  const measurements: ImportedMeasurement[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const row = index + 1;
+    const cells = splitCsvLine(line, delimiter);
+    if (cells.length !== headers.length) {
+      issues.push({
+        row,
+        severity: 'warning',
+        message: `Expected ${headers.length} columns, found ${cells.length}`,
+      });
+    }
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      record[header] = cells[column] ?? '';
+    });
+
+    const measurement = parseRecord(record, row, mapping, units, delimiter !== ',', issues);
+    if (measurement) measurements.push(measurement);
+  });
+
+  return { format: 'csv', measurements, issues, columnMapping: mapping };
+};
+
+/**
+ * Extracts the list of row objects from common JSON export shapes:
+ * an array, an object with a "grafts"/"measurements"/"rows" array, or a single object.
+ */
+const extractJsonRecords = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const container = data as Record<string, unknown>;
+    for (const key of ['grafts', 'measurements', 'rows', 'data']) {
+      if (Array.isArray(container[key])) return container[key] as unknown[];
+    }
+    return [data];
+  }
+  return null;
+};
+
+/**
+ * Parses a JSON export. Column heuristics are applied to object keys.
+ */
+export const parseMeasurementJson = (text: string): ImportResult => {
+  const issues: ImportIssue[] = [];
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return {
+      format: 'json',
+      measurements: [],
+      issues: [{ row: 0, severity: 'error', message: 'File is not valid JSON' }],
+      columnMapping: {},
+    };
+  }
+
+  const records = extractJsonRecords(data);
+  if (!records || records.length === 0) {
+    return {
+      format: 'json',
+      measurements: [],
+      issues: [{ row: 0, severity: 'error', message: 'No measurement records found' }],
+      columnMapping: {},
+    };
+  }
+
+  const keys = new Set<string>();
+  records.forEach((record) => {
+    if (record && typeof record === 'object') Object.keys(record).forEach((key) => keys.add(key));
+  });
+  const mapping = mapColumns([...keys]);
+  const units = resolveColumnUnits(mapping, issues);
+  reportUnmappedMetrics(mapping, issues);
+
+  const measurements: ImportedMeasurement[] = [];
+  records.forEach((record, index) => {
+    const row = index + 1;
+    if (!record || typeof record !== 'object') {
+      issues.push({ row, severity: 'error', message: 'Record is not an object' });
+      return;
+    }
+
+    const measurement = parseRecord(record as Record<string, unknown>, row, mapping, units, true, issues);
+    if (measurement) measurements.push(measurement);
+  });
+
+  return { format: 'json', measurements, issues, columnMapping: mapping };
+};
+
+/**
+ * Parses an export file, choosing CSV or JSON from the file name
+ * or, when unknown, from the content.
+ */
+export const parseMeasurementFile = (text: string, fileName?: string): ImportResult => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return parseMeasurementJson(text);
+  if (extension === 'csv' || extension === 'tsv') return parseMeasurementCsv(text);
+
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parseMeasurementJson(text)
+    : parseMeasurementCsv(text);
+};
+
+/**
+ * Builds a graft draft from an imported row.
+ * Missing conduit or target fall back to the defaults of a new graft.
+ */
+export const toGraftDraft = (measurement: ImportedMeasurement): GraftDraft => {
+  const conduit = measurement.conduit ?? DEFAULT_CONDUIT;
+  const target = measurement.target ?? DEFAULT_TARGET;
+
+  return {
+    name: measurement.name ?? getDefaultGraftName(conduit, target),
+    conduit,
+    target,
+    profileId: suggestReferenceProfileId(conduit, target),
+    values: measurement.values,
+  };
+};
@@ -0,0 +1,181 @@
+/**
+ * Input validation for metric values, driven by each metric's MetricRange.
+ *
+ * Severity levels:
+ * - error: the input cannot be used (not a number, physiologically implausible)
+ * - warning: the input is usable but unusual (off the gauge scale, too precise)
+ */
+
+import {
+  MetricInputState,
+  MetricKey,
+  MetricRange,
+  ReferenceProfileId,
+  METRIC_KEYS,
+} from '../types/metrics';
+import { DEFAULT_LOCALE, LocaleId } from '../constants/i18n';
+import { isNumericInput } from './metricValues';
+import { delocalizeNumber, localizeNumber, translate } from './i18n';
+import { UnitPreferences, getDisplayRange } from './units';
+
+/** How serious a validation finding is */
+export type ValidationSeverity = 'error' | 'warning';
+
+/** A single validation finding for one input */
+export interface ValidationIssue {
+  readonly severity: ValidationSeverity;
+  readonly message: string;
+}
+
+/** Validation findings for every metric of a form */
+export type MetricValidationResult = Record<MetricKey, readonly ValidationIssue[]>;
+
+/**
+ * Counts the decimal places written in a numeric string.
+ */
+const countDecimals = (text: string): number => {
+  const [, fraction = ''] = text.split('.');
+  return fraction.length;
+};
+
+/**
+ * Checks whether a number has no more than the given decimal places,
+ * tolerating floating-point noise from unit conversion.
+ */
+const fitsDecimals = (value: number, decimals: number): boolean => {
+  const scaled = value * 10 ** decimals;
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6 * Math.max(1, Math.abs(scaled));
+};
+
+/**
+ * Builds the warning for a value written with more decimals than usual.
+ */
+const getPrecisionIssue = (decimals: number, locale: LocaleId): ValidationIssue => ({
+  severity: 'warning',
+  message:
+    decimals === 0
+      ? translate(locale, 'validation.wholeNumber')
+      : translate(
+          locale,
+          decimals === 1 ? 'validation.decimalsOne' : 'validation.decimalsOther',
+          { decimals }
+        ),
+});
+
+/**
+ * Checks a value against the plausible bounds and the gauge scale of its range.
+ */
+const getRangeIssues = (
+  value: number,
+  range: MetricRange,
+  locale: LocaleId
+): ValidationIssue[] => {
+  const { plausibleMin, plausibleMax } = range.validation;
+  const unit = range.unit.length > 0 ? ` ${range.unit}` : '';
+
+  if (value < plausibleMin || value > plausibleMax) {
+    return [
+      {
+        severity: 'error',
+        message: translate(locale, 'validation.implausible', {
+          min: localizeNumber(plausibleMin, locale),
+          max: localizeNumber(plausibleMax, locale),
+          unit,
+        }),
+      },
+    ];
+  }
+
+  if (value < range.min || value > range.max) {
+    return [
+      {
+        severity: 'warning',
+        message: translate(locale, 'validation.offScale', {
+          min: localizeNumber(range.min, locale),
+          max: localizeNumber(range.max, locale),
+          unit,
+        }),
+      },
+    ];
+  }
+
+  return [];
+};
+
+/**
+ * Validates the text of a single metric input against its range.
+ * Empty input is valid and means the metric was not measured.
+ * Input and messages use the given language.
+ */
+export const validateMetricInput = (
+  text: string,
+  range: MetricRange,
+  locale: LocaleId = DEFAULT_LOCALE
+): ValidationIssue[] => {
+  if (text.trim() === '') return [];
+
+  if (!isNumericInput(text, locale)) {
+    return [{ severity: 'error', message: translate(locale, 'validation.notANumber') }];
+  }
+
+  const normalized = delocalizeNumber(text, locale);
+  const issues = getRangeIssues(Number(normalized), range, locale);
+  if (hasValidationErrors(issues)) return issues;
+
+  const { decimals } = range.validation;
+  return countDecimals(normalized) > decimals
+    ? [...issues, getPrecisionIssue(decimals, locale)]
+    : issues;
+};
+
+/**
+ * Validates an already parsed metric value against its range, with the
+ * same rules as validateMetricInput. Precision is checked on the number
+ * itself, so exponent notation and converted values are judged correctly.
+ */
+export const validateMetricValue = (
+  value: number,
+  range: MetricRange,
+  locale: LocaleId = DEFAULT_LOCALE
+): ValidationIssue[] => {
+  const issues = getRangeIssues(value, range, locale);
+  if (hasValidationErrors(issues)) return issues;
+
+  const { decimals } = range.validation;
+  return fitsDecimals(value, decimals)
+    ? issues
+    : [...issues, getPrecisionIssue(decimals, locale)];
+};
+
+/**
+ * Validates every metric of an input form against the given profile.
+ * Fields are checked in the unit and language they are entered in.
+ */
+export const validateMetricInputState = (
+  state: MetricInputState,
+  profileId?: ReferenceProfileId,
+  units: UnitPreferences = {},
+  locale: LocaleId = DEFAULT_LOCALE
+): MetricValidationResult => {
+  const result: Partial<MetricValidationResult> = {};
+  METRIC_KEYS.forEach((key) => {
+    result[key] = validateMetricInput(
+      state[key],
+      getDisplayRange(key, profileId, units),
+      locale
+    );
+  });
+  return result as MetricValidationResult;
+};
+
+/**
+ * Checks whether any finding is a hard error.
+ */
+export const hasValidationErrors = (
+  issues: readonly ValidationIssue[] | Partial<MetricValidationResult>
+): boolean => {
+  const list = Array.isArray(issues)
+    ? issues
+    : Object.values(issues).flatMap((entry) => entry ?? []);
+  return list.some((issue) => issue.severity === 'error');
+};
@@ -0,0 +1,94 @@
+/**
+ * Helpers for metric values that may be missing.
+ * A null value means the metric was not measured, which is distinct
+ * from a measured value of zero.
+ */
+
+import { MetricInputState, MetricValue, MetricValues, METRIC_KEYS } from '../types/metrics';
+import { DEFAULT_LOCALE, LocaleId } from '../constants/i18n';
+import { formatDisplayValue } from './gaugeMath';
+import { delocalizeNumber, getDecimalSeparator, localizeNumber } from './i18n';
+import { UnitPreferences, valuesFromBase, valuesToBase } from './units';
+
+/** Placeholder shown in place of a value that was not measured */
+export const NOT_MEASURED_PLACEHOLDER = '—';
+
+/** A plain decimal number such as "12", "-3.5" or ".8" */
+const NUMERIC_INPUT_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Checks whether trimmed input is a plain decimal number written with
+ * the language's decimal mark. Rejects text that parseFloat would
+ * partially accept, e.g. "12abc", and the other decimal mark, since
+ * "1.000" or "1,000" may be meant as a thousands separator.
+ */
+export const isNumericInput = (text: string, locale: LocaleId = DEFAULT_LOCALE): boolean => {
+  const trimmed = text.trim();
+  if (getDecimalSeparator(locale) !== '.' && trimmed.includes('.')) return false;
+  return NUMERIC_INPUT_PATTERN.test(delocalizeNumber(trimmed, locale));
+};
+
+/**
+ * Type guard for a measured value.
+ */
+export const isMeasured = (value: MetricValue): value is number => value !== null;
+
+/**
+ * Parses a user-entered string into a metric value.
+ * Empty or non-numeric input yields null (not measured).
+ */
+export const parseMetricInput = (
+  text: string,
+  locale: LocaleId = DEFAULT_LOCALE
+): MetricValue => {
+  if (!isNumericInput(text, locale)) return null;
+
+  const parsed = Number(delocalizeNumber(text, locale));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Parses every field of an input form into metric values.
+ * Fields are entered in the preferred units and the language's number
+ * format; the result is in base units.
+ */
+export const parseMetricInputState = (
+  state: MetricInputState,
+  units: UnitPreferences = {},
+  locale: LocaleId = DEFAULT_LOCALE
+): MetricValues => {
+  const values: Partial<MetricValues> = {};
+  METRIC_KEYS.forEach((key) => {
+    values[key] = parseMetricInput(state[key], locale);
+  });
+  return valuesToBase(values as MetricValues, units);
+};
+
+/**
+ * Converts base-unit metric values back into editable input strings
+ * in the preferred units and the language's number format.
+ * Unmeasured metrics become empty fields.
+ */
+export const toMetricInputState = (
+  values: MetricValues,
+  units: UnitPreferences = {},
+  locale: LocaleId = DEFAULT_LOCALE
+): MetricInputState => {
+  const converted = valuesFromBase(values, units);
+  const state: Partial<MetricInputState> = {};
+  METRIC_KEYS.forEach((key) => {
+    const value = converted[key];
+    state[key] = isMeasured(value) ? localizeNumber(value, locale) : '';
+  });
+  return state as MetricInputState;
+};
+
+/**
+ * Formats a metric value for display, using a placeholder when not measured.
+ */
+export const formatMetricValue = (
+  value: MetricValue,
+  decimalPlaces: number = 1,
+  locale: LocaleId = DEFAULT_LOCALE
+): string =>
+  isMeasured(value) ? formatDisplayValue(value, decimalPlaces, locale) : NOT_MEASURED_PLACEHOLDER;
@@ -0,0 +1,70 @@
+/**
+ * Scoring of quiz answers.
+ * Summarizes a learner's answers overall, per scenario and over their
+ * most recent cases.
+ */
+
+import { QuizAnswer, TrainingScenario, TRAINING_SCENARIOS } from '../types/metrics';
+
+/** Number of latest answers the recent accuracy is computed over */
+export const RECENT_ANSWER_COUNT = 10;
+
+/** Correct answers out of a total */
+export interface QuizTally {
+  readonly total: number;
+  readonly correct: number;
+}
+
+/** Summary of a learner's performance */
+export interface QuizStats extends QuizTally {
+  /** Share of correct answers in [0, 1]; null before the first answer */
+  readonly accuracy: number | null;
+  /** Accuracy over the latest answers; null before the first answer */
+  readonly recentAccuracy: number | null;
+  /** Correct answers in a row, counting back from the latest */
+  readonly streak: number;
+  /** Tally per ground-truth scenario */
+  readonly byScenario: Readonly<Record<TrainingScenario, QuizTally>>;
+}
+
+/**
+ * Checks whether an answer matches the case's ground truth.
+ */
+export const isCorrectAnswer = (answer: QuizAnswer): boolean =>
+  answer.answer === answer.scenario;
+
+/**
+ * Tallies a list of answers.
+ */
+const tally = (answers: readonly QuizAnswer[]): QuizTally => ({
+  total: answers.length,
+  correct: answers.filter(isCorrectAnswer).length,
+});
+
+/**
+ * Correct share of a tally, or null when it is empty.
+ */
+const toAccuracy = ({ total, correct }: QuizTally): number | null =>
+  total === 0 ? null : correct / total;
+
+/**
+ * Summarizes answers given in any order.
+ */
+export const getQuizStats = (answers: readonly QuizAnswer[]): QuizStats => {
+  const latestFirst = [...answers].sort((a, b) => b.answeredAt - a.answeredAt);
+  const overall = tally(latestFirst);
+  const firstMiss = latestFirst.findIndex((answer) => !isCorrectAnswer(answer));
+
+  const byScenario = {} as Record<TrainingScenario, QuizTally>;
+  TRAINING_SCENARIOS.forEach((scenario) => {
+    byScenario[scenario] = tally(latestFirst.filter((answer) => answer.scenario === scenario));
+  });
+
+  return {
+    ...overall,
+    accuracy: toAccuracy(overall),
+    recentAccuracy: toAccuracy(tally(latestFirst.slice(0, RECENT_ANSWER_COUNT))),
+    streak: firstMiss === -1 ? latestFirst.length : firstMiss,
+    byScenario,
+  };
+};
@@ -0,0 +1,198 @@
+/**
+ * Runtime validation of reference ranges and zone definitions.
+ * A valid MetricRange has min < max and zones that are contiguous,
+ * non-overlapping and cover exactly min..max.
+ */
+
+import {
+  MetricKey,
+  MetricRange,
+  ReferenceProfile,
+  ReferenceProfileId,
+  ReferenceRanges,
+  METRIC_KEYS,
+} from '../types/metrics';
+
+/** Kind of problem found in a range definition */
+export type RangeDiagnosticCode =
+  | 'missing-metric'
+  | 'missing-label'
+  | 'invalid-number'
+  | 'inverted-range'
+  | 'no-zones'
+  | 'inverted-zone'
+  | 'zone-out-of-range'
+  | 'gap'
+  | 'overlap'
+  | 'uncovered-start'
+  | 'uncovered-end'
+  | 'implausible-limits';
+
+/** A single structured finding about a range definition */
+export interface RangeDiagnostic {
+  readonly code: RangeDiagnosticCode;
+  /** Errors make a range unusable; warnings are suspicious but accepted */
+  readonly severity: 'error' | 'warning';
+  readonly message: string;
+  readonly profileId?: ReferenceProfileId;
+  readonly metric?: MetricKey;
+  /** Index into the range's `zones` array, when the finding concerns a zone */
+  readonly zoneIndex?: number;
+}
+
+/**
+ * Thrown when a range profile with errors is about to be accepted.
+ */
+export class ReferenceRangeError extends Error {
+  readonly diagnostics: readonly RangeDiagnostic[];
+
+  constructor(message: string, diagnostics: readonly RangeDiagnostic[]) {
+    super(message);
+    this.name = 'ReferenceRangeError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Validates a single metric range.
+ */
+export const validateMetricRange = (
+  range: MetricRange,
+  metric?: MetricKey
+): RangeDiagnostic[] => {
+  const diagnostics: RangeDiagnostic[] = [];
+  const name = metric ?? range.label;
+  const report = (
+    code: RangeDiagnosticCode,
+    message: string,
+    zoneIndex?: number,
+    severity: RangeDiagnostic['severity'] = 'error'
+  ) => diagnostics.push({ code, severity, message: `${name}: ${message}`, metric, zoneIndex });
+
+  if (!Number.isFinite(range.min) || !Number.isFinite(range.max)) {
+    report('invalid-number', 'min and max must be finite numbers');
+    return diagnostics;
+  }
+  if (range.min >= range.max) {
+    report('inverted-range', `min (${range.min}) must be below max (${range.max})`);
+    return diagnostics;
+  }
+  if (range.zones.length === 0) {
+    report('no-zones', 'at least one zone is required');
+    return diagnostics;
+  }
+
+  range.zones.forEach((zone, index) => {
+    if (!Number.isFinite(zone.start) || !Number.isFinite(zone.end)) {
+      report('invalid-number', `zone ${index + 1} bounds must be finite numbers`, index);
+      return;
+    }
+    if (zone.start >= zone.end) {
+      report('inverted-zone', `zone ${index + 1} starts at ${zone.start} but ends at ${zone.end}`, index);
+    }
+    if (zone.start < range.min || zone.end > range.max) {
+      report(
+        'zone-out-of-range',
+        `zone ${index + 1} (${zone.start}–${zone.end}) lies outside ${range.min}–${range.max}`,
+        index
+      );
+    }
+  });
+
+  // Coverage is checked on well-formed zones sorted by start, keeping the original indices
+  const sorted = range.zones
+    .map((zone, index) => ({ zone, index }))
+    .filter(
+      ({ zone }) => Number.isFinite(zone.start) && Number.isFinite(zone.end) && zone.start < zone.end
+    )
+    .sort((a, b) => a.zone.start - b.zone.start);
+
+  if (sorted.length > 0) {
+    const first = sorted[0];
+    const last = sorted.reduce((latest, entry) => (entry.zone.end > latest.zone.end ? entry : latest));
+
+    if (first.zone.start > range.min) {
+      report('uncovered-start', `no zone covers ${range.min}–${first.zone.start}`, first.index);
+    }
+    if (last.zone.end < range.max) {
+      report('uncovered-end', `no zone covers ${last.zone.end}–${range.max}`, last.index);
+    }
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    if (current.zone.start > previous.zone.end) {
+      report('gap', `gap between ${previous.zone.end} and ${current.zone.start}`, current.index);
+    } else if (current.zone.start < previous.zone.end) {
+      report(
+        'overlap',
+        `zones ${previous.index + 1} and ${current.index + 1} overlap between ${current.zone.start} and ${Math.min(previous.zone.end, current.zone.end)}`,
+        current.index
+      );
+    }
+  }
+
+  const { plausibleMin, plausibleMax } = range.validation;
+  if (plausibleMin > range.min || plausibleMax < range.max) {
+    report(
+      'implausible-limits',
+      `plausibility limits ${plausibleMin}–${plausibleMax} are narrower than the display range`,
+      undefined,
+      'warning'
+    );
+  }
+
+  return diagnostics;
+};
+
+/**
+ * Validates a complete range table; every metric must be defined.
+ */
+export const validateReferenceRanges = (ranges: ReferenceRanges): RangeDiagnostic[] =>
+  METRIC_KEYS.flatMap((key) => {
+    const range = ranges[key];
+    if (!range) {
+      return [{ code: 'missing-metric', severity: 'error', message: `${key}: range is missing`, metric: key }];
+    }
+    return validateMetricRange(range, key);
+  });
+
+/**
+ * Validates a reference profile, tagging every diagnostic with its ID.
+ */
+export const validateReferenceProfile = (profile: ReferenceProfile): RangeDiagnostic[] => {
+  const diagnostics: RangeDiagnostic[] = [];
+  if (profile.id.trim() === '' || profile.label.trim() === '') {
+    diagnostics.push({
+      code: 'missing-label',
+      severity: 'error',
+      message: 'Profile ID and label must not be empty',
+    });
+  }
+  diagnostics.push(...validateReferenceRanges(profile.ranges));
+
+  return diagnostics.map((diagnostic) => ({ ...diagnostic, profileId: profile.id }));
+};
+
+/**
+ * Checks whether any diagnostic is an error.
+ */
+export const hasRangeErrors = (diagnostics: readonly RangeDiagnostic[]): boolean =>
+  diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+/**
+ * Throws a ReferenceRangeError when the profile has errors.
+ * Returns the (possibly empty) list of warnings otherwise.
+ */
+export const assertValidReferenceProfile = (profile: ReferenceProfile): RangeDiagnostic[] => {
+  const diagnostics = validateReferenceProfile(profile);
+  if (hasRangeErrors(diagnostics)) {
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+    throw new ReferenceRangeError(
+      `Invalid reference profile '${profile.id}': ${errors.map((error) => error.message).join('; ')}`,
+      diagnostics
+    );
+  }
+  return diagnostics;
+};
@@ -0,0 +1,90 @@
+/**
+ * Comparison of a graft's metrics before and after revision.
+ * An assessment is linked to its earlier one through `revisionOf`;
+ * values are compared in the base unit and zones are looked up in each
+ * assessment's own reference profile.
+ */
+
+import {
+  GraftAssessment,
+  MetricKey,
+  MetricValue,
+  SurgicalSession,
+  ZoneType,
+  METRIC_KEYS,
+} from '../types/metrics';
+import { getZoneForValue } from '../constants/referenceRanges';
+import { isMeasured } from './metricValues';
+
+/** How a metric's zone moved after revision */
+export type ZoneChange = 'improved' | 'worsened' | 'unchanged';
+
+/** Two assessments of the same graft, before and after revision */
+export interface RevisionPair {
+  readonly before: GraftAssessment;
+  readonly after: GraftAssessment;
+}
+
+/** One metric of a revision pair */
+export interface MetricComparison {
+  readonly key: MetricKey;
+  readonly before: MetricValue;
+  readonly after: MetricValue;
+  /** After minus before; null unless both were measured */
+  readonly delta: number | null;
+  readonly beforeZone: ZoneType | null;
+  readonly afterZone: ZoneType | null;
+  /** Null unless both were measured */
+  readonly zoneChange: ZoneChange | null;
+}
+
+/** Zones from best to worst */
+const ZONE_RANK: Readonly<Record<ZoneType, number>> = { green: 0, yellow: 1, red: 2 };
+
+/**
+ * Returns the earlier assessment a graft revises, if it is still in the session.
+ */
+export const getRevisionPair = (
+  session: SurgicalSession,
+  graftId: string
+): RevisionPair | null => {
+  const after = session.grafts.find((graft) => graft.id === graftId);
+  const before = after?.revisionOf
+    ? session.grafts.find((graft) => graft.id === after.revisionOf)
+    : undefined;
+  return after && before ? { before, after } : null;
+};
+
+/**
+ * Returns whether a zone is better, worse or the same as an earlier one.
+ */
+export const getZoneChange = (before: ZoneType, after: ZoneType): ZoneChange => {
+  if (ZONE_RANK[after] < ZONE_RANK[before]) return 'improved';
+  if (ZONE_RANK[after] > ZONE_RANK[before]) return 'worsened';
+  return 'unchanged';
+};
+
+/**
+ * Compares every metric of a revision pair.
+ */
+export const compareRevision = ({ before, after }: RevisionPair): MetricComparison[] =>
+  METRIC_KEYS.map((key) => {
+    const beforeValue = before.values[key];
+    const afterValue = after.values[key];
+    const beforeZone = isMeasured(beforeValue)
+      ? getZoneForValue(key, beforeValue, before.profileId)
+      : null;
+    const afterZone = isMeasured(afterValue)
+      ? getZoneForValue(key, afterValue, after.profileId)
+      : null;
+
+    return {
+      key,
+      before: beforeValue,
+      after: afterValue,
+      delta: isMeasured(beforeValue) && isMeasured(afterValue) ? afterValue - beforeValue : null,
+      beforeZone,
+      afterZone,
+      zoneChange: beforeZone && afterZone ? getZoneChange(beforeZone, afterZone) : null,
+    };
+  });
@@ -0,0 +1,111 @@
+/**
+ * Pure helpers for creating and updating surgical sessions.
+ * Sessions are treated as immutable; every helper returns a new object.
+ */
+
+import {
+  GraftAssessment,
+  MetricKey,
+  SurgicalSession,
+  ZoneType,
+  METRIC_KEYS,
+} from '../types/metrics';
+import { getZoneForValue } from '../constants/referenceRanges';
+import { isMeasured } from './metricValues';
+
+/** Number of metrics falling in each zone */
+export type ZoneCounts = Record<ZoneType, number>;
+
+/** Graft fields supplied by the user when adding a graft */
+export type GraftDraft = Omit<GraftAssessment, 'id'>;
+
+/**
+ * Generates a reasonably unique identifier for sessions and grafts.
+ * Not cryptographically secure; only used as a local key.
+ */
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates a new empty session.
+ */
+export const createSession = (): SurgicalSession => ({
+  id: createId(),
+  createdAt: Date.now(),
+  grafts: [],
+});
+
+/**
+ * Appends a new graft to the session.
+ */
+export const addGraft = (
+  session: SurgicalSession,
+  draft: GraftDraft
+): SurgicalSession => ({
+  ...session,
+  grafts: [...session.grafts, { ...draft, id: createId() }],
+});
+
+/**
+ * Replaces the fields of an existing graft.
+ * Optional fields missing from the draft (e.g. the waveform) are kept.
+ * Unknown graft IDs leave the session unchanged.
+ */
+export const updateGraft = (
+  session: SurgicalSession,
+  graftId: string,
+  draft: GraftDraft
+): SurgicalSession => ({
+  ...session,
+  grafts: session.grafts.map((graft) =>
+    graft.id === graftId ? { ...graft, ...draft, id: graftId } : graft
+  ),
+});
+
+/**
+ * Removes a graft from the session.
+ * Revisions of the removed graft lose their link to it.
+ */
+export const removeGraft = (
+  session: SurgicalSession,
+  graftId: string
+): SurgicalSession => ({
+  ...session,
+  grafts: session.grafts
+    .filter((graft) => graft.id !== graftId)
+    .map((graft) => (graft.revisionOf === graftId ? { ...graft, revisionOf: undefined } : graft)),
+});
+
+/**
+ * Counts how many metrics of a graft fall in each zone of its profile.
+ * Metrics that were not measured are left out.
+ */
+export const getZoneCounts = (graft: GraftAssessment): ZoneCounts => {
+  const counts: ZoneCounts = { green: 0, yellow: 0, red: 0 };
+
+  METRIC_KEYS.forEach((key) => {
+    const value = graft.values[key];
+    if (!isMeasured(value)) return;
+    counts[getZoneForValue(key, value, graft.profileId)] += 1;
+  });
+
+  return counts;
+};
+
+/**
+ * Returns the metrics of a graft that were not measured.
+ */
+export const getUnmeasuredMetrics = (graft: GraftAssessment): MetricKey[] =>
+  METRIC_KEYS.filter((key) => !isMeasured(graft.values[key]));
+
+/**
+ * Returns the worst zone reached by any measured metric of a graft,
+ * or null when no metric was measured.
+ */
+export const getWorstZone = (graft: GraftAssessment): ZoneType | null => {
+  const counts = getZoneCounts(graft);
+  if (counts.red > 0) return 'red';
+  if (counts.yellow > 0) return 'yellow';
+  if (counts.green > 0) return 'green';
+  return null;
+};
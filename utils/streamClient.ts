@@ -0,0 +1,165 @@
+/**
+ * WebSocket client for a live measurement feed.
+ * The feed sends JSON frames of metric values in base units, e.g.
+ * `{ "values": { "MF": 42.5, "PI": 1.8 }, "timestamp": 1700000000000 }`.
+ * Dropped connections are retried with exponential backoff.
+ */
+
+import { MetricValues, METRIC_KEYS } from '../types/metrics';
+
+/** Connection states of the stream client */
+export const STREAM_STATUSES = ['connecting', 'open', 'reconnecting', 'closed'] as const;
+
+/** A connection state */
+export type StreamStatus = (typeof STREAM_STATUSES)[number];
+
+/** One frame received from the feed */
+export interface StreamFrame {
+  /** Metrics the frame reports, in base units; null when not measured */
+  readonly values: Partial<MetricValues>;
+  /** Sender's timestamp in ms, or the time of receipt when the frame has none */
+  readonly timestamp: number;
+}
+
+/** Callbacks of a stream client */
+export interface StreamClientHandlers {
+  /** Called on every frame that parses */
+  readonly onFrame: (frame: StreamFrame) => void;
+  /**
+   * Called when the connection state changes. While reconnecting, `retryIn`
+   * is the wait in ms before the next attempt.
+   */
+  readonly onStatus: (status: StreamStatus, retryIn?: number) => void;
+}
+
+/** A running stream client */
+export interface StreamClient {
+  /** Closes the connection and stops reconnecting */
+  readonly close: () => void;
+}
+
+/** Wait before the first reconnect attempt */
+const INITIAL_RETRY_DELAY_MS = 1000;
+
+/** Upper bound on the wait between reconnect attempts */
+const MAX_RETRY_DELAY_MS = 30000;
+
+/** Accepted endpoint URL schemes */
+const STREAM_URL_PATTERN = /^wss?:\/\/\S+$/i;
+
+/**
+ * Checks whether text is a ws:// or wss:// URL.
+ */
+export const isStreamUrl = (url: string): boolean => STREAM_URL_PATTERN.test(url.trim());
+
+/**
+ * Wait before the given reconnect attempt (0-based): 1 s, 2 s, 4 s, …
+ * capped at 30 s.
+ */
+export const getRetryDelay = (attempt: number): number =>
+  Math.min(INITIAL_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+
+/**
+ * Parses a frame's JSON text. Unknown keys are ignored, as are metrics
+ * whose value is neither a finite number nor null. Returns null when the
+ * text is not a frame or reports no metric.
+ */
+export const parseStreamFrame = (
+  text: string,
+  receivedAt: number = Date.now()
+): StreamFrame | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+
+  const { values: rawValues, timestamp } = data as { values?: unknown; timestamp?: unknown };
+  if (typeof rawValues !== 'object' || rawValues === null) return null;
+
+  const values: Partial<MetricValues> = {};
+  METRIC_KEYS.forEach((key) => {
+    const raw = (rawValues as Record<string, unknown>)[key];
+    if (raw === null || (typeof raw === 'number' && Number.isFinite(raw))) {
+      values[key] = raw;
+    }
+  });
+  if (Object.keys(values).length === 0) return null;
+
+  return {
+    values,
+    timestamp:
+      typeof timestamp === 'number' && Number.isFinite(timestamp) ? timestamp : receivedAt,
+  };
+};
+
+/**
+ * Connects to a feed and keeps the connection up until closed.
+ * Frames that do not parse are skipped.
+ */
+export const createStreamClient = (url: string, handlers: StreamClientHandlers): StreamClient => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let isClosed = false;
+
+  const scheduleRetry = () => {
+    const delay = getRetryDelay(attempt);
+    attempt += 1;
+    handlers.onStatus('reconnecting', delay);
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = () => {
+    retryTimer = null;
+    handlers.onStatus('connecting');
+
+    try {
+      socket = new WebSocket(url.trim());
+    } catch {
+      // Malformed URLs throw synchronously and will not improve on retry
+      isClosed = true;
+      handlers.onStatus('closed');
+      return;
+    }
+
+    socket.onopen = () => {
+      attempt = 0;
+      handlers.onStatus('open');
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      const frame = parseStreamFrame(event.data);
+      if (frame) handlers.onFrame(frame);
+    };
+
+    // An error is always followed by close, which handles the retry
+    socket.onerror = () => {};
+
+    socket.onclose = () => {
+      socket = null;
+      if (!isClosed) scheduleRetry();
+    };
+  };
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    if (retryTimer !== null) clearTimeout(retryTimer);
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+    handlers.onStatus('closed');
+  };
+
+  connect();
+
+  return { close };
+};
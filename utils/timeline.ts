@@ -0,0 +1,48 @@
+/**
+ * Helpers for the intraoperative measurement timeline of a graft.
+ * A graft keeps at most one set of readings per surgical phase.
+ */
+
+import {
+  MeasurementPhase,
+  MetricKey,
+  MetricValue,
+  MetricValues,
+  TimelineEntry,
+  MEASUREMENT_PHASES,
+} from '../types/metrics';
+
+/** One metric's reading at a surgical phase */
+export interface TimelinePoint {
+  readonly phase: MeasurementPhase;
+  readonly recordedAt: number;
+  readonly value: MetricValue;
+}
+
+/**
+ * Records readings for a phase, replacing earlier readings of the same
+ * phase so corrections do not pile up. Entries stay in phase order.
+ */
+export const recordTimelineEntry = (
+  timeline: readonly TimelineEntry[] = [],
+  phase: MeasurementPhase,
+  values: MetricValues,
+  recordedAt: number
+): TimelineEntry[] =>
+  [...timeline.filter((entry) => entry.phase !== phase), { phase, recordedAt, values }].sort(
+    (a, b) => MEASUREMENT_PHASES.indexOf(a.phase) - MEASUREMENT_PHASES.indexOf(b.phase)
+  );
+
+/**
+ * Returns one metric's readings across the timeline, in phase order.
+ * Phases where the metric was not measured keep a null value.
+ */
+export const getMetricTimeline = (
+  timeline: readonly TimelineEntry[] = [],
+  key: MetricKey
+): TimelinePoint[] =>
+  timeline.map((entry) => ({
+    phase: entry.phase,
+    recordedAt: entry.recordedAt,
+    value: entry.values[key],
+  }));
@@ -0,0 +1,75 @@
+/**
+ * Generator of training cases for the quiz.
+ * Each case is a graft with realistic metric values drawn for one
+ * scenario, which is kept as the case's ground truth.
+ */
+
+import {
+  MetricValues,
+  TrainingCase,
+  TrainingScenario,
+  METRIC_KEYS,
+  TARGET_VESSELS,
+  TRAINING_SCENARIOS,
+} from '../types/metrics';
+import { getDefaultGraftName } from '../constants/grafts';
+import { DEFAULT_PROFILE_ID, getMetricRange } from '../constants/referenceRanges';
+import { TRAINING_SCENARIO_SPECS, ValueSpan } from '../constants/trainingScenarios';
+import { createId } from './session';
+
+/** Source of uniformly distributed numbers in [0, 1) */
+export type RandomSource = () => number;
+
+/**
+ * Picks one item of a non-empty list.
+ */
+const pick = <T>(items: readonly T[], random: RandomSource): T =>
+  items[Math.min(Math.floor(random() * items.length), items.length - 1)];
+
+/**
+ * Draws a value from a span, rounded to the given decimal places.
+ */
+const draw = (span: ValueSpan, decimals: number, random: RandomSource): number =>
+  Number((span.min + random() * (span.max - span.min)).toFixed(decimals));
+
+/**
+ * Draws metric values for a scenario, rounded to the precision each
+ * metric is entered with.
+ */
+export const generateScenarioValues = (
+  scenario: TrainingScenario,
+  random: RandomSource = Math.random
+): MetricValues => {
+  const values: Partial<MetricValues> = {};
+  METRIC_KEYS.forEach((key) => {
+    const { decimals } = getMetricRange(key, DEFAULT_PROFILE_ID).validation;
+    values[key] = draw(TRAINING_SCENARIO_SPECS[scenario].values[key], decimals, random);
+  });
+  return values as MetricValues;
+};
+
+/**
+ * Generates a case for the given scenario, or for a random one.
+ * Cases use the default reference profile, which the scenario
+ * specs are tuned to.
+ */
+export const generateTrainingCase = (
+  scenario: TrainingScenario = pick(TRAINING_SCENARIOS, Math.random),
+  random: RandomSource = Math.random
+): TrainingCase => {
+  const conduit = pick(TRAINING_SCENARIO_SPECS[scenario].conduits, random);
+  const target = pick(TARGET_VESSELS, random);
+
+  return {
+    id: createId(),
+    scenario,
+    graft: {
+      id: createId(),
+      name: getDefaultGraftName(conduit, target),
+      conduit,
+      target,
+      profileId: DEFAULT_PROFILE_ID,
+      values: generateScenarioValues(scenario, random),
+    },
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * Unit conversion for metric values and ranges.
+ * Stored values and reference ranges use each metric's base unit;
+ * these helpers convert to and from the unit a user prefers.
+ */
+
+import {
+  MetricKey,
+  MetricRange,
+  MetricValue,
+  MetricValues,
+  ReferenceProfileId,
+  METRIC_KEYS,
+} from '../types/metrics';
+import { METRIC_UNITS, UnitDefinition } from '../constants/units';
+import { getMetricRange } from '../constants/referenceRanges';
+
+/** Preferred unit ID per metric; missing entries use the base unit */
+export type UnitPreferences = Readonly<Partial<Record<MetricKey, string>>>;
+
+/**
+ * Resolves a unit of a metric, falling back to its base unit
+ * for unknown or missing IDs.
+ */
+export const getUnit = (key: MetricKey, unitId?: string): UnitDefinition => {
+  const units = METRIC_UNITS[key];
+  return units.find((unit) => unit.id === unitId) ?? units[0];
+};
+
+/**
+ * Drops the floating-point noise a conversion introduces
+ * (e.g. 0.045000000000000005) while keeping full precision.
+ */
+const stripNoise = (value: number): number => Number(value.toPrecision(12));
+
+/**
+ * Converts a base-unit value into the given unit.
+ */
+export const fromBaseValue = (key: MetricKey, value: number, unitId?: string): number =>
+  stripNoise(value * getUnit(key, unitId).factor);
+
+/**
+ * Converts a value in the given unit back into the base unit.
+ */
+export const toBaseValue = (key: MetricKey, value: number, unitId?: string): number =>
+  stripNoise(value / getUnit(key, unitId).factor);
+
+/**
+ * Converts a metric range, its zones and its validation limits into
+ * the given unit. Returns the range unchanged for the base unit.
+ */
+export const convertRange = (
+  key: MetricKey,
+  range: MetricRange,
+  unitId?: string
+): MetricRange => {
+  const unit = getUnit(key, unitId);
+  if (unit === METRIC_UNITS[key][0]) return range;
+
+  const convert = (value: number) => fromBaseValue(key, value, unit.id);
+  return {
+    ...range,
+    unit: unit.label,
+    min: convert(range.min),
+    max: convert(range.max),
+    zones: range.zones.map((zone) => ({
+      ...zone,
+      start: convert(zone.start),
+      end: convert(zone.end),
+    })),
+    validation: {
+      plausibleMin: convert(range.validation.plausibleMin),
+      plausibleMax: convert(range.validation.plausibleMax),
+      decimals: range.validation.decimals + unit.extraDecimals,
+    },
+  };
+};
+
+/**
+ * Returns a metric's range within a profile, converted into the preferred unit.
+ */
+export const getDisplayRange = (
+  key: MetricKey,
+  profileId: ReferenceProfileId | undefined,
+  units: UnitPreferences
+): MetricRange => convertRange(key, getMetricRange(key, profileId), units[key]);
+
+/**
+ * Converts every measured value from the base unit into the preferred units.
+ */
+export const valuesFromBase = (values: MetricValues, units: UnitPreferences): MetricValues => {
+  const converted: Partial<MetricValues> = {};
+  METRIC_KEYS.forEach((key) => {
+    const value: MetricValue = values[key];
+    converted[key] = value === null ? null : fromBaseValue(key, value, units[key]);
+  });
+  return converted as MetricValues;
+};
+
+/**
+ * Converts every measured value from the preferred units into the base unit.
+ */
+export const valuesToBase = (values: MetricValues, units: UnitPreferences): MetricValues => {
+  const converted: Partial<MetricValues> = {};
+  METRIC_KEYS.forEach((key) => {
+    const value: MetricValue = values[key];
+    converted[key] = value === null ? null : toBaseValue(key, value, units[key]);
+  });
+  return converted as MetricValues;
+};